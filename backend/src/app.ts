@@ -1,13 +1,14 @@
 import express, { Request, Response } from 'express';
 import dotenv from 'dotenv';
-import { 
-  convertAppleMusicLinkToSpotify, 
-  convertSpotifyLinkToAppleMusic,
-  getSpotifyDetailedMetadata,
-  searchAppleMusicContent
-} from './modules/linkConversion';
-import { extractMetadata, DetailedMetadata } from './modules/metadataExtraction';
-import { searchSpotifyContent } from './modules/spotifyApi';
+import { convertSingleLink, findLinksOnAllProviders, forgetConversions } from './modules/conversion';
+import { findProviderForLink, getProvider, getProviders } from './modules/providers';
+import { resolveLink } from './modules/linkResolution';
+import { checkCorrectionMatches, InvalidCorrectionError, saveCorrection, validateCorrection } from './modules/corrections';
+import { getCachedMetadata } from './modules/cache';
+import { parseRegion } from './modules/storefronts';
+import { AVAILABILITY_MAX_REGIONS, checkAvailability } from './modules/availability';
+import { BATCH_MAX_LINKS, convertBatch } from './modules/batchConversion';
+import { InvalidRequestError, toAppError, UnsupportedLinkError } from './modules/errors';
 import cors from 'cors';
 
 dotenv.config();
@@ -18,158 +19,240 @@ const PORT = process.env.PORT || 3000;
 app.use(cors());  // Enable CORS for frontend requests
 app.use(express.json());
 
-app.get('/', (req: Request, res: Response) => {
-  res.send('Backend is running');
-});
+/**
+ * Responds with an error's HTTP status and stable `code`. Errors the server
+ * caused are logged; stack traces are only included in development.
+ */
+function sendError(res: Response, error: any, context: string): void {
+  const { message, code, status } = toAppError(error);
+  if (status >= 500) {
+    console.error(context, error);
+  }
 
-interface ConversionResponseAppleToSpotify {
-  conversionDirection: "apple-to-spotify";
-  appleMusicMetadata: DetailedMetadata;
-  spotifyResult: {
-    spotifyUrl: string;
-    metadata: DetailedMetadata;
-  };
-  confidence: number;
+  res.status(status).json({ 
+    error: message,
+    code,
+    details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+  });
 }
 
-interface ConversionResponseSpotifyToApple {
-  conversionDirection: "spotify-to-apple";
-  spotifyMetadata: DetailedMetadata;
-  appleMusicResult: {
-    appleMusicUrl: string;
-    metadata: DetailedMetadata;
-  };
-  confidence: number;
+/**
+ * Reads the optional `region` (or `market`) query parameter. Returns
+ * undefined when it's absent and null when it isn't a two-letter code.
+ */
+function getRequestedRegion(req: Request): string | null | undefined {
+  const region = req.query.region ?? req.query.market;
+  if (region === undefined) return undefined;
+  return typeof region === 'string' ? parseRegion(region) : null;
 }
 
-type ConversionResponse = ConversionResponseAppleToSpotify | ConversionResponseSpotifyToApple;
+app.get('/', (req: Request, res: Response) => {
+  res.send('Backend is running');
+});
+
+// GET /providers
+// Lists the registered music services links can be converted from and to.
+app.get('/providers', (req: Request, res: Response) => {
+  res.json(getProviders().map(({ id, name, hosts, shortLinkHosts = [] }) => ({ id, name, hosts, shortLinkHosts })));
+});
 
-// GET /convert?link=<link>
-// This endpoint converts between Apple Music and Spotify links by:
-// 1. Detecting the link type
-// 2. Parsing the link to extract structured metadata
-// 3. Using the appropriate API to get detailed information
-// 4. Searching the target platform for matching content
+// GET /convert?link=<link>&target=<provider id>&region=<storefront>
+// This endpoint converts links between any two registered providers by:
+// 1. Following short links and canonicalizing the link
+// 2. Detecting which provider the link belongs to
+// 3. Parsing the link to extract structured metadata
+// 4. Using the source provider's API to get detailed information
+// 5. Searching the target provider for matching content
+// Playlist links are converted track by track and return a per-track report.
+// When no target is given, the first registered provider other than the
+// source is used. Searches and returned links are limited to the region
+// (e.g. gb, jp), which defaults to the source link's storefront.
 app.get('/convert', async (req: Request, res: Response) => {
   try {
     const link = req.query.link;
     if (!link || typeof link !== 'string') {
-      return res.status(400).json({ 
-        error: 'link query parameter is required and must be a string' 
-      });
-    }
-
-    if (link.includes("music.apple.com")) {
-      // Apple Music → Spotify flow
-      const parsedMetadata = convertAppleMusicLinkToSpotify(link);
-      const appleMusicMetadata = await extractMetadata(parsedMetadata);
-      const spotifyResult = await searchSpotifyContent(appleMusicMetadata);
-      const confidence = calculateMatchConfidence(appleMusicMetadata, spotifyResult.metadata);
-      
-      const response: ConversionResponseAppleToSpotify = {
-        conversionDirection: "apple-to-spotify",
-        appleMusicMetadata,
-        spotifyResult,
-        confidence
-      };
-      res.json(response);
-    }
-    else if (link.includes("open.spotify.com")) {
-      // Spotify → Apple Music flow
-      const parsedSpotify = convertSpotifyLinkToAppleMusic(link);
-      const spotifyMetadata = await getSpotifyDetailedMetadata(parsedSpotify);
-      const appleMusicResult = await searchAppleMusicContent(spotifyMetadata);
-      const confidence = calculateMatchConfidence(spotifyMetadata, appleMusicResult.metadata);
-      
-      const response: ConversionResponseSpotifyToApple = {
-        conversionDirection: "spotify-to-apple",
-        spotifyMetadata,
-        appleMusicResult,
-        confidence
-      };
-      res.json(response);
-    }
-    else {
-      res.status(400).json({ 
-        error: "Unsupported link type. Please provide an Apple Music or Spotify link." 
-      });
+      throw new InvalidRequestError('link query parameter is required and must be a string');
+    }
+
+    const requestedTarget = req.query.target;
+    if (requestedTarget !== undefined && typeof requestedTarget !== 'string') {
+      throw new InvalidRequestError('target query parameter must be a string');
+    }
+
+    const target = requestedTarget ? getProvider(requestedTarget) : undefined;
+    if (requestedTarget && !target) {
+      throw new InvalidRequestError(`target query parameter must be one of: ${getProviders().map(p => p.id).join(', ')}`);
+    }
+
+    const region = getRequestedRegion(req);
+    if (region === null) {
+      throw new InvalidRequestError('region query parameter must be a two-letter country code');
     }
+
+    const response = await convertSingleLink(link, target, region);
+    res.json(response);
   } catch (error: any) {
-    console.error('Conversion error:', error);
-    res.status(500).json({ 
-      error: error.message,
-      details: process.env.NODE_ENV === 'development' ? error.stack : undefined
-    });
+    sendError(res, error, 'Conversion error:');
   }
 });
 
-/**
- * Calculates a confidence score (0-100) for how well the source matches
- * the target content.
- */
-function calculateMatchConfidence(
-  source: DetailedMetadata, 
-  match: DetailedMetadata
-): number {
-  let score = 0;
-  let factors = 0;
-
-  // Compare titles (weighted heavily)
-  if (source.title && match.title) {
-    const titleSimilarity = calculateStringSimilarity(source.title, match.title);
-    score += titleSimilarity * 40;  // Title is worth 40% of the score
-    factors += 40;
-  }
+// POST /convert/batch
+// Body: { "links": [<link>, ...], "target": <provider id>, "region": <storefront> }
+// Converts many links at once, e.g. from a chat export, with bounded
+// concurrency. Links may come from any mix of providers; each one is
+// converted as by GET /convert and succeeds or fails on its own. Playlists
+// aren't accepted. Results are returned in the order the links were given.
+app.post('/convert/batch', async (req: Request, res: Response) => {
+  try {
+    const { links, target: requestedTarget, region: requestedRegion } = req.body || {};
+    if (!Array.isArray(links) || links.length === 0 || !links.every(link => typeof link === 'string' && link)) {
+      throw new InvalidRequestError('links is required and must be a non-empty array of strings');
+    }
+    if (links.length > BATCH_MAX_LINKS) {
+      throw new InvalidRequestError(`links must contain at most ${BATCH_MAX_LINKS} links`);
+    }
+
+    if (requestedTarget !== undefined && typeof requestedTarget !== 'string') {
+      throw new InvalidRequestError('target must be a string');
+    }
 
-  // Compare artists (weighted heavily)
-  if (source.artist && match.artist) {
-    const artistSimilarity = calculateStringSimilarity(source.artist, match.artist);
-    score += artistSimilarity * 40;  // Artist is worth 40% of the score
-    factors += 40;
+    const target = requestedTarget ? getProvider(requestedTarget) : undefined;
+    if (requestedTarget && !target) {
+      throw new InvalidRequestError(`target must be one of: ${getProviders().map(p => p.id).join(', ')}`);
+    }
+
+    const region = requestedRegion === undefined
+      ? undefined
+      : typeof requestedRegion === 'string' ? parseRegion(requestedRegion) : null;
+    if (region === null) {
+      throw new InvalidRequestError('region must be a two-letter country code');
+    }
+
+    const response = await convertBatch(links, target, region);
+    res.json(response);
+  } catch (error: any) {
+    sendError(res, error, 'Batch conversion error:');
   }
+});
 
-  // Compare albums if available (less weight)
-  if (source.album && match.album) {
-    const albumSimilarity = calculateStringSimilarity(source.album, match.album);
-    score += albumSimilarity * 20;  // Album is worth 20% of the score
-    factors += 20;
+// GET /links?link=<link>&region=<storefront>
+// Returns matches for the link on every registered provider at once, so a
+// single response can be shared with people who use different services.
+// Each provider reports its own confidence, or an error if no match was found.
+app.get('/links', async (req: Request, res: Response) => {
+  try {
+    const link = req.query.link;
+    if (!link || typeof link !== 'string') {
+      throw new InvalidRequestError('link query parameter is required and must be a string');
+    }
+
+    const resolvedLink = await resolveLink(link);
+    const source = findProviderForLink(resolvedLink);
+    if (!source) {
+      throw new UnsupportedLinkError(`Unsupported link type. Please provide a link from one of: ${getProviders().map(p => p.name).join(', ')}.`);
+    }
+
+    const region = getRequestedRegion(req);
+    if (region === null) {
+      throw new InvalidRequestError('region query parameter must be a two-letter country code');
+    }
+
+    const parsed = source.parseLink(resolvedLink);
+    const response = await findLinksOnAllProviders(source, parsed, resolvedLink, region ?? parsed.region);
+    res.json(response);
+  } catch (error: any) {
+    sendError(res, error, 'Link lookup error:');
   }
+});
+
+// GET /availability?link=<link>&regions=<comma-separated region codes>
+// Reports which countries a track, album or artist plays in, e.g. for the
+// link a conversion returned. Supported for providers with regional
+// catalogs (Spotify tracks and albums, Apple Music). When no regions are
+// given, the AVAILABILITY_REGIONS list is checked.
+app.get('/availability', async (req: Request, res: Response) => {
+  try {
+    const link = req.query.link;
+    if (!link || typeof link !== 'string') {
+      throw new InvalidRequestError('link query parameter is required and must be a string');
+    }
+
+    const requestedRegions = req.query.regions;
+    if (requestedRegions !== undefined && typeof requestedRegions !== 'string') {
+      throw new InvalidRequestError('regions query parameter must be a comma-separated list of country codes');
+    }
+    const parsedRegions = requestedRegions?.split(',').map(region => parseRegion(region.trim()));
+    if (parsedRegions && parsedRegions.some(region => region === null)) {
+      throw new InvalidRequestError('regions query parameter must be a comma-separated list of two-letter country codes');
+    }
+    const regions = parsedRegions && Array.from(new Set(parsedRegions as string[]));
+    if (regions && regions.length > AVAILABILITY_MAX_REGIONS) {
+      throw new InvalidRequestError(`regions query parameter must list at most ${AVAILABILITY_MAX_REGIONS} country codes`);
+    }
+
+    const resolvedLink = await resolveLink(link);
+    const provider = findProviderForLink(resolvedLink);
+    if (!provider) {
+      throw new UnsupportedLinkError(`Unsupported link type. Please provide a link from one of: ${getProviders().map(p => p.name).join(', ')}.`);
+    }
 
-  // If we have ISRC and they match, it's a perfect match
-  if (source.isrc && match.isrc && source.isrc === match.isrc) {
-    return 100;
+    const parsed = provider.parseLink(resolvedLink);
+    const response = await checkAvailability(provider, parsed, resolvedLink, regions);
+    res.json(response);
+  } catch (error: any) {
+    sendError(res, error, 'Availability error:');
   }
+});
 
-  // Normalize score based on available factors
-  return factors > 0 ? Math.round((score / factors) * 100) : 0;
-}
+// POST /corrections
+// Body: { "link": <source link>, "correctLink": <link to the right content> }
+// Records which content a source link should convert to on the correct
+// link's provider. Later conversions of the same content to that provider
+// use the correction instead of searching, for every user, and cached
+// conversions of it are dropped.
+app.post('/corrections', async (req: Request, res: Response) => {
+  try {
+    const { link, correctLink } = req.body || {};
+    if (!link || typeof link !== 'string' || !correctLink || typeof correctLink !== 'string') {
+      throw new InvalidRequestError('link and correctLink are required and must be strings');
+    }
 
-/**
- * Calculates string similarity using a simple case-insensitive comparison
- * Returns a value between 0 and 1
- */
-function calculateStringSimilarity(str1: string, str2: string): number {
-  const s1 = str1.toLowerCase().trim();
-  const s2 = str2.toLowerCase().trim();
-  
-  if (s1 === s2) return 1;
-  
-  // Remove common featuring/feat./ft. variations for comparison
-  const normalizeFeatures = (s: string) => {
-    return s.replace(/\(feat\.?|ft\.?|featuring\s+[^)]+\)/gi, '')
-           .replace(/\([^)]+\)/g, '')  // Remove parenthetical content
-           .trim();
-  };
-  
-  const n1 = normalizeFeatures(s1);
-  const n2 = normalizeFeatures(s2);
-  
-  if (n1 === n2) return 0.95;  // Very high confidence but not perfect
-  
-  // TODO: Could implement more sophisticated string similarity algorithm
-  // like Levenshtein distance or other fuzzy matching
-  return 0.5;  // Default to medium confidence if strings are different
-}
+    const resolvedLink = await resolveLink(link);
+    const resolvedCorrectLink = await resolveLink(correctLink);
+    const source = findProviderForLink(resolvedLink);
+    const target = findProviderForLink(resolvedCorrectLink);
+    if (!source || !target) {
+      throw new UnsupportedLinkError(`Unsupported link type. Please provide links from: ${getProviders().map(p => p.name).join(', ')}.`);
+    }
+
+    const parsedSource = source.parseLink(resolvedLink);
+    const parsedTarget = target.parseLink(resolvedCorrectLink);
+    validateCorrection(parsedSource, parsedTarget);
+
+    // Make sure the correct link points to content that exists; other
+    // failures (timeouts, outages) are reported as they are
+    let metadata;
+    try {
+      ({ value: metadata } = await getCachedMetadata(target, parsedTarget));
+    } catch (error: any) {
+      const appError = toAppError(error);
+      if (appError.code === 'content_not_found') {
+        throw new InvalidCorrectionError(`Could not find the content at ${correctLink}`);
+      }
+      throw appError;
+    }
+
+    const { value: sourceMetadata } = await getCachedMetadata(source, parsedSource);
+    checkCorrectionMatches(sourceMetadata, metadata);
+
+    const targetUrl = target.buildUrl(parsedTarget.type, parsedTarget.id, parsedTarget.region);
+    const correction = await saveCorrection(parsedSource, resolvedLink, parsedTarget, targetUrl);
+    await forgetConversions(parsedSource, target.id);
+    res.status(201).json({ correction, metadata });
+  } catch (error: any) {
+    sendError(res, error, 'Correction error:');
+  }
+});
 
 app.listen(PORT, () => {
   console.log(`Server started on port ${PORT}`);
@@ -0,0 +1,109 @@
+import { DetailedMetadata } from './metadataExtraction';
+import { ConfidenceBreakdown } from './matchConfidence';
+import { normalizeTitle, stripVersionInfo } from './textNormalization';
+
+// Tracks whose durations differ by more than this are treated as different recordings
+const DURATION_TOLERANCE_MS = 3000;
+
+/**
+ * The result of comparing the track listings of two albums.
+ */
+export interface AlbumTrackComparison {
+  sourceTracks: number;
+  targetTracks: number;
+  matchedTracks: number;
+  /** Source tracks with no counterpart on the target album */
+  missing: DetailedMetadata[];
+  /** Target tracks with no counterpart on the source album */
+  extra: DetailedMetadata[];
+}
+
+/**
+ * Whether two tracks share an ISRC
+ */
+function hasSameIsrc(source: DetailedMetadata, target: DetailedMetadata): boolean {
+  return !!source.isrc && !!target.isrc && source.isrc.toUpperCase() === target.isrc.toUpperCase();
+}
+
+/**
+ * Whether two tracks have the same title and, when both are known, duration
+ */
+function hasSameTitleAndDuration(source: DetailedMetadata, target: DetailedMetadata): boolean {
+  if (normalizeTitle(stripVersionInfo(source.title)) !== normalizeTitle(stripVersionInfo(target.title))) {
+    return false;
+  }
+
+  if (source.duration && target.duration) {
+    return Math.abs(source.duration - target.duration) <= DURATION_TOLERANCE_MS;
+  }
+
+  return true;
+}
+
+/**
+ * Compares the track listings of a source album and its match, pairing each
+ * source track with at most one target track. Tracks are matched by ISRC
+ * where present, otherwise by title and duration.
+ *
+ * @param sourceTracks - The source album's tracks.
+ * @param targetTracks - The matched album's tracks.
+ * @returns The matched, missing and extra tracks.
+ */
+export function compareAlbumTracks(
+  sourceTracks: DetailedMetadata[],
+  targetTracks: DetailedMetadata[]
+): AlbumTrackComparison {
+  const remaining = [...targetTracks];
+  const missing: DetailedMetadata[] = [];
+
+  for (const track of sourceTracks) {
+    // Match by ISRC first, then by title/duration for tracks without one
+    // (or whose ISRC differs between services, e.g. some remasters)
+    let index = remaining.findIndex(candidate => hasSameIsrc(track, candidate));
+    if (index === -1) {
+      index = remaining.findIndex(candidate => hasSameTitleAndDuration(track, candidate));
+    }
+
+    if (index === -1) {
+      missing.push(track);
+    } else {
+      remaining.splice(index, 1);
+    }
+  }
+
+  return {
+    sourceTracks: sourceTracks.length,
+    targetTracks: targetTracks.length,
+    matchedTracks: sourceTracks.length - missing.length,
+    missing,
+    extra: remaining
+  };
+}
+
+/**
+ * Scales an album match confidence by how much the track listings overlap,
+ * so a standard edition matched to a deluxe edition scores visibly lower.
+ * A full overlap keeps the confidence unchanged and no overlap halves it;
+ * anything less is recorded as a penalty in the breakdown.
+ */
+export function applyTrackListConfidence(
+  breakdown: ConfidenceBreakdown,
+  comparison: AlbumTrackComparison
+): ConfidenceBreakdown {
+  const largest = Math.max(comparison.sourceTracks, comparison.targetTracks);
+  if (largest === 0) return breakdown;
+
+  const overlap = comparison.matchedTracks / largest;
+  const multiplier = 0.5 + 0.5 * overlap;
+  if (multiplier === 1) return breakdown;
+
+  return {
+    ...breakdown,
+    score: Math.round(breakdown.score * multiplier),
+    penalties: [...breakdown.penalties, {
+      type: 'trackList',
+      description: `${comparison.matchedTracks} of ${largest} tracks match between the albums`,
+      multiplier
+    }]
+  };
+}
@@ -1,17 +1,35 @@
-import axios from 'axios';
 import jwt from 'jsonwebtoken';
 import { DetailedMetadata } from './metadataExtraction';
-import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
-
-// Initialize the Secret Manager client
-const secretManagerClient = new SecretManagerServiceClient();
+import { calculateDurationSimilarity, calculateVersionPenalty, getUpcForms } from './matchConfidence';
+import { getSearchStorefronts } from './storefronts';
+import { addCandidate, getAlternatives, SearchCandidate, SearchCandidates } from './searchAlternatives';
+import {
+  cleanText,
+  normalizeArtistName,
+  normalizeText,
+  normalizeTitle,
+  removeFeaturingArtists,
+  splitArtists
+} from './textNormalization';
+import { createTokenManager, IssuedToken } from './tokenManager';
+import { CircuitOpenError, createHttpClient } from './httpClient';
+import { CredentialsMissingError, NoMatchError, toAppError } from './errors';
+import { getSecret } from './secrets';
+
+// Shared by every Apple Music API request, so they retry and trip the circuit together
+export const appleMusicHttp = createHttpClient('Apple Music');
+
+// Lifetime of the signed developer tokens, in seconds
+const APPLE_MUSIC_TOKEN_LIFETIME = 24 * 60 * 60;
 
 interface AppleMusicSearchResult {
   appleMusicUrl: string;
   metadata: DetailedMetadata;
+  /** Other results the search considered, for picking a different match */
+  alternatives?: SearchCandidate[];
 }
 
-interface AppleMusicTrack {
+export interface AppleMusicTrack {
   type: 'songs' | 'albums' | 'artists';
   attributes: {
     name: string;
@@ -27,7 +45,9 @@ interface AppleMusicTrack {
     discNumber?: number;
     durationInMillis?: number;
     isrc?: string;
+    upc?: string;
     previews?: Array<{ url: string }>;
+    contentRating?: 'explicit' | 'clean';
     url: string;
   };
 }
@@ -37,52 +57,17 @@ interface ScoredResult {
   score: number;
 }
 
-/**
- * Retrieves secrets from Google Cloud Secret Manager in production,
- * or returns undefined to fallback to environment variables in development.
- */
-async function getSecret(secretName: string): Promise<string | undefined> {
-  // In development, return undefined to use environment variables
-  if (process.env.NODE_ENV !== 'production') {
-    return undefined;
-  }
-
-  try {
-    // Get the project ID from the environment or compute metadata
-    const projectId = process.env.NODE_ENV === 'production' ? 'convert-jakoblangtry-com' : process.env.GOOGLE_CLOUD_PROJECT;
-    if (!projectId) {
-      throw new Error('GOOGLE_CLOUD_PROJECT is not set');
-    }
-
-    // Access the secret version
-    const [version] = await secretManagerClient.accessSecretVersion({
-      name: `projects/${projectId}/secrets/${secretName}/versions/latest`,
-    });
-
-    // Extract the secret payload
-    const secretValue = version.payload?.data?.toString();
-    if (!secretValue) {
-      throw new Error(`Secret ${secretName} not found or empty`);
-    }
-
-    return secretValue;
-  } catch (error) {
-    console.error(`Error retrieving secret ${secretName}:`, error);
-    throw new Error(`Failed to retrieve secret ${secretName}`);
-  }
-}
-
 /**
  * Generates a developer token for Apple Music API
  */
-async function getAppleMusicToken(): Promise<string> {
+async function generateAppleMusicToken(): Promise<IssuedToken> {
   // Try to get credentials from Secret Manager first, fall back to environment variables
   const teamId = await getSecret('apple-team-id') || process.env.APPLE_TEAM_ID;
   const keyId = await getSecret('apple-key-id') || process.env.APPLE_KEY_ID;
   let privateKey = await getSecret('apple-private-key') || process.env.APPLE_PRIVATE_KEY;
 
   if (!teamId || !keyId || !privateKey) {
-    throw new Error('Apple Music API credentials missing');
+    throw new CredentialsMissingError('Apple Music API credentials missing');
   }
 
   // Handle both escaped and unescaped newlines
@@ -92,7 +77,7 @@ async function getAppleMusicToken(): Promise<string> {
 
   const token = jwt.sign({}, privateKey, {
     algorithm: 'ES256',
-    expiresIn: '24h',
+    expiresIn: APPLE_MUSIC_TOKEN_LIFETIME,
     issuer: teamId,
     header: {
       alg: 'ES256',
@@ -100,46 +85,17 @@ async function getAppleMusicToken(): Promise<string> {
     }
   });
 
-  return token;
+  return { token, expiresIn: APPLE_MUSIC_TOKEN_LIFETIME };
 }
 
-/**
- * Cleans and normalizes text for better matching
- */
-function cleanText(text: string): string {
-  return text
-    .replace(/[\u2000-\u206F\u2E7F\\'!"#$%&()*+,\-.\/:;<=>?@\[\]^_`{|}~]/g, ' ')
-    .replace(/[''""]/g, '')
-    .replace(/\s+/g, ' ')
-    .replace(/\s*&\s*/g, ' and ')
-    .replace(/\s*,\s*/g, ' and ')
-    .toLowerCase()
-    .trim();
-}
-
-/**
- * Normalizes titles for comparison by handling common variations
- */
-function normalizeTitle(title: string): string {
-  return title
-    .toLowerCase()
-    .replace(/[''""]/g, '')
-    .replace(/\s*&\s*/g, ' and ')
-    .replace(/[\(\[\{][^\)\]\}]*[\)\]\}]/g, '') // Remove parenthetical content
-    .replace(/[^\w\s]/g, ' ')  // Replace any remaining punctuation with spaces
-    .replace(/\s+/g, ' ')      // Normalize spaces
-    .trim();
-}
+const appleMusicTokens = createTokenManager(generateAppleMusicToken);
 
 /**
- * Removes featuring artists and parenthetical content
+ * Runs an Apple Music API request with the shared developer token, which is
+ * reused until it expires and re-signed if Apple rejects it.
  */
-function removeFeaturingArtists(text: string): string {
-  return text
-    .replace(/[\(\[\{](?:feat|ft|featuring|with)\.?\s+[^\)\]\}]+[\)\]\}]/gi, '')
-    .replace(/(?:feat|ft|featuring|with)\.?\s+[^([\n]+/gi, '')
-    .replace(/[\(\[\{][^\)\]\}]*[\)\]\}]/g, '')
-    .trim();
+export function withAppleMusicToken<T>(request: (token: string) => Promise<T>): Promise<T> {
+  return appleMusicTokens.withToken(request);
 }
 
 /**
@@ -148,16 +104,17 @@ function removeFeaturingArtists(text: string): string {
 function generateSearchQueries(metadata: DetailedMetadata): string[] {
   const queries: string[] = [];
   const title = cleanText(metadata.title);
-  const cleanTitle = removeFeaturingArtists(title);
+  const cleanTitle = cleanText(removeFeaturingArtists(metadata.title));
   
   // Handle artist variations
   const artist = cleanText(metadata.artist);
-  const artistVariations = [
+  const artistNames = splitArtists(metadata.artist).map(cleanText);
+  const artistVariations = [...new Set([
     artist,
-    artist.replace(/ and /g, ' & '),
-    artist.replace(/ and /g, ', '),
-    artist.split(/ and |, /).join(' ')
-  ];
+    artistNames.join(' & '),
+    artistNames.join(', '),
+    artistNames.join(' and ')
+  ])];
 
   // Handle different content types
   switch (metadata.type) {
@@ -185,15 +142,9 @@ function generateSearchQueries(metadata: DetailedMetadata): string[] {
         queries.push(`${cleanTitle} ${artist} ${album}`);
       }
 
-      // Try with ISRC if available
-      if (metadata.isrc) {
-        queries.push(metadata.isrc);
-      }
-
       // Try with individual artist names for collaborations
-      const individualArtists = artist.split(/ and |, /);
-      if (individualArtists.length > 1) {
-        queries.push(`${title} ${individualArtists[0]}`);
+      if (artistNames.length > 1) {
+        queries.push(`${title} ${artistNames[0]}`);
       }
       break;
 
@@ -227,10 +178,10 @@ function calculateMatchScore(result: AppleMusicTrack, sourceMetadata: DetailedMe
   // Handle different content types
   switch (sourceMetadata.type) {
     case 'track':
-      const resultTitle = normalizeTitle(result.attributes.name);
-      const sourceTitle = normalizeTitle(sourceMetadata.title);
-      const resultArtist = cleanText(result.attributes.artistName);
-      const sourceArtist = cleanText(sourceMetadata.artist);
+      const resultTitle = normalizeText(result.attributes.name);
+      const sourceTitle = normalizeText(sourceMetadata.title);
+      const resultArtist = normalizeArtistName(result.attributes.artistName);
+      const sourceArtist = normalizeArtistName(sourceMetadata.artist);
 
       console.log('Normalized titles for comparison:', {
         resultTitle,
@@ -243,7 +194,7 @@ function calculateMatchScore(result: AppleMusicTrack, sourceMetadata: DetailedMe
       if (resultTitle === sourceTitle) {
         score += 0.4;
         matchDetails.exactTitleMatch = 0.4;
-      } else if (removeFeaturingArtists(resultTitle) === removeFeaturingArtists(sourceTitle)) {
+      } else if (normalizeTitle(result.attributes.name) === normalizeTitle(sourceMetadata.title)) {
         score += 0.4; // Increased from 0.3 since this is effectively an exact match
         matchDetails.cleanedTitleMatch = 0.4;
       } else if (resultTitle.includes(sourceTitle) || sourceTitle.includes(resultTitle)) {
@@ -251,47 +202,32 @@ function calculateMatchScore(result: AppleMusicTrack, sourceMetadata: DetailedMe
         matchDetails.partialTitleMatch = 0.2;
       }
 
-      // Artist match (40%)
+      // Artist match (40%) - normalization makes "A & B", "A, B" and "B and A" equal
       if (resultArtist === sourceArtist) {
         score += 0.4;
         matchDetails.exactArtistMatch = 0.4;
-      } else {
-        // Check different artist name formats
-        const resultArtistVariations = [
-          resultArtist,
-          resultArtist.replace(/ and /g, ' & '),
-          resultArtist.replace(/ and /g, ', '),
-          resultArtist.split(/ and |, /).join(' ')
-        ];
-        const sourceArtistVariations = [
-          sourceArtist,
-          sourceArtist.replace(/ and /g, ' & '),
-          sourceArtist.replace(/ and /g, ', '),
-          sourceArtist.split(/ and |, /).join(' ')
-        ];
-
-        if (resultArtistVariations.some(v1 => 
-            sourceArtistVariations.some(v2 => v1 === v2))) {
-          score += 0.4;
-          matchDetails.artistVariationMatch = 0.4;
-        } else if (resultArtistVariations.some(v1 => 
-            sourceArtistVariations.some(v2 => 
-              v1.includes(v2) || v2.includes(v1)))) {
-          score += 0.2;
-          matchDetails.partialArtistMatch = 0.2;
-        }
+      } else if (resultArtist.includes(sourceArtist) || sourceArtist.includes(resultArtist)) {
+        score += 0.2;
+        matchDetails.partialArtistMatch = 0.2;
       }
 
       // Album match (10%)
       if (sourceMetadata.album && result.attributes.albumName) {
-        const resultAlbum = cleanText(result.attributes.albumName);
-        const sourceAlbum = cleanText(sourceMetadata.album);
+        const resultAlbum = normalizeText(result.attributes.albumName);
+        const sourceAlbum = normalizeText(sourceMetadata.album);
         if (resultAlbum === sourceAlbum) {
           score += 0.1;
           matchDetails.albumMatch = 0.1;
         }
       }
 
+      // Duration match (10%) - graded, so longer live or extended cuts score lower
+      const durationSimilarity = calculateDurationSimilarity(sourceMetadata.duration, result.attributes.durationInMillis);
+      if (durationSimilarity !== null) {
+        score += 0.1 * durationSimilarity;
+        matchDetails.durationMatch = 0.1 * durationSimilarity;
+      }
+
       // ISRC match (10% bonus)
       if (sourceMetadata.isrc && result.attributes.isrc === sourceMetadata.isrc) {
         score += 0.1;
@@ -309,15 +245,15 @@ function calculateMatchScore(result: AppleMusicTrack, sourceMetadata: DetailedMe
       break;
 
     case 'album':
-      const albumTitle = cleanText(result.attributes.name);
-      const sourceAlbumTitle = cleanText(sourceMetadata.title);
-      const albumArtist = cleanText(result.attributes.artistName);
-      const sourceAlbumArtist = cleanText(sourceMetadata.artist);
+      const albumTitle = normalizeText(result.attributes.name);
+      const sourceAlbumTitle = normalizeText(sourceMetadata.title);
+      const albumArtist = normalizeArtistName(result.attributes.artistName);
+      const sourceAlbumArtist = normalizeArtistName(sourceMetadata.artist);
 
       // Title match (50%)
       if (albumTitle === sourceAlbumTitle) {
         score += 0.5;
-      } else if (removeFeaturingArtists(albumTitle) === removeFeaturingArtists(sourceAlbumTitle)) {
+      } else if (normalizeTitle(result.attributes.name) === normalizeTitle(sourceMetadata.title)) {
         score += 0.4;
       } else if (albumTitle.includes(sourceAlbumTitle) || sourceAlbumTitle.includes(albumTitle)) {
         score += 0.3;
@@ -332,8 +268,8 @@ function calculateMatchScore(result: AppleMusicTrack, sourceMetadata: DetailedMe
       break;
 
     case 'artist':
-      const artistName = cleanText(result.attributes.name);
-      const sourceArtistName = cleanText(sourceMetadata.artist);
+      const artistName = normalizeText(result.attributes.name);
+      const sourceArtistName = normalizeText(sourceMetadata.artist);
 
       // Name match (80%)
       if (artistName === sourceArtistName) {
@@ -354,13 +290,21 @@ function calculateMatchScore(result: AppleMusicTrack, sourceMetadata: DetailedMe
       break;
   }
 
+  // Penalize different versions (live, remix, sped up, explicit vs. clean)
+  if (sourceMetadata.type !== 'artist') {
+    score *= calculateVersionPenalty(sourceMetadata, {
+      title: result.attributes.name,
+      explicit: result.attributes.contentRating === 'explicit'
+    });
+  }
+
   return score;
 }
 
 /**
  * Maps Apple Music API response to our metadata format
  */
-function mapAppleMusicResponse(result: AppleMusicTrack): DetailedMetadata {
+export function mapAppleMusicResponse(result: AppleMusicTrack): DetailedMetadata {
   const baseMetadata = {
     type: result.type === 'songs' ? 'track' as const : 
           result.type === 'albums' ? 'album' as const : 
@@ -382,6 +326,7 @@ function mapAppleMusicResponse(result: AppleMusicTrack): DetailedMetadata {
         discNumber: result.attributes.discNumber,
         duration: result.attributes.durationInMillis,
         isrc: result.attributes.isrc,
+        explicit: result.attributes.contentRating === 'explicit',
         previewUrl: result.attributes.previews?.[0]?.url
       };
 
@@ -389,7 +334,9 @@ function mapAppleMusicResponse(result: AppleMusicTrack): DetailedMetadata {
       return {
         ...baseMetadata,
         releaseDate: result.attributes.releaseDate,
-        totalTracks: result.attributes.trackCount
+        totalTracks: result.attributes.trackCount,
+        upc: result.attributes.upc,
+        explicit: result.attributes.contentRating === 'explicit'
       };
 
     case 'artist':
@@ -401,13 +348,118 @@ function mapAppleMusicResponse(result: AppleMusicTrack): DetailedMetadata {
 }
 
 /**
- * Searches for content on Apple Music using multiple search strategies
+ * Builds the request headers for the Apple Music catalog API
+ */
+export function getAppleMusicHeaders(token: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Authorization': `Bearer ${token}`
+  };
+
+  // Only add Music-User-Token if it exists
+  const userToken = process.env.APPLE_MUSIC_USER_TOKEN;
+  if (userToken) {
+    headers['Music-User-Token'] = userToken;
+  }
+
+  return headers;
+}
+
+/**
+ * Checks whether a track, album or artist is in a storefront's catalog.
+ * Catalog IDs are shared across storefronts, and content that isn't
+ * available in a storefront is answered with a 404.
+ */
+export async function isAvailableInStorefront(
+  type: DetailedMetadata['type'],
+  id: string,
+  storefront: string
+): Promise<boolean> {
+  const path = type === 'track' ? 'songs' : `${type}s`;
+
+  try {
+    await withAppleMusicToken(token =>
+      appleMusicHttp.get(`https://api.music.apple.com/v1/catalog/${storefront}/${path}/${id}`, {
+        headers: getAppleMusicHeaders(token)
+      })
+    );
+    return true;
+  } catch (error: any) {
+    if (error.response?.status === 404) return false;
+    throw error;
+  }
+}
+
+/**
+ * Looks up a track by ISRC or an album by UPC in the catalog. Codes are
+ * exact, so any hit is the same recording or release as the source.
+ *
+ * Several releases can share an ISRC (the single and the album version of
+ * a song), so the hit that best matches the rest of the metadata wins.
+ * Returns null when no storefront has a hit; any other failure is thrown,
+ * since a text search would run into it as well.
+ */
+async function findByCode(
+  sourceMetadata: DetailedMetadata,
+  region?: string
+): Promise<AppleMusicTrack | null> {
+  let path: string;
+  let params: Record<string, string>;
+
+  if (sourceMetadata.type === 'track' && sourceMetadata.isrc) {
+    path = 'songs';
+    params = { 'filter[isrc]': sourceMetadata.isrc.toUpperCase() };
+  } else if (sourceMetadata.type === 'album' && sourceMetadata.upc) {
+    path = 'albums';
+    // Apple matches UPCs exactly and lists some as 12-digit UPC-A and others
+    // as 13-digit EAN, so ask for both forms
+    params = { 'filter[upc]': getUpcForms(sourceMetadata.upc).join(',') };
+  } else {
+    return null;
+  }
+
+  for (const storefront of getSearchStorefronts(sourceMetadata, region)) {
+    try {
+      const response = await withAppleMusicToken(token =>
+        appleMusicHttp.get(`https://api.music.apple.com/v1/catalog/${storefront}/${path}`, {
+          params,
+          headers: getAppleMusicHeaders(token)
+        })
+      );
+
+      const results: AppleMusicTrack[] = response.data.data || [];
+      if (results.length > 0) {
+        return results.reduce((best, result) =>
+          calculateMatchScore(result, sourceMetadata) > calculateMatchScore(best, sourceMetadata) ? result : best
+        );
+      }
+    } catch (error: any) {
+      if (toAppError(error).code !== 'content_not_found') throw error;
+      console.log('No Apple Music match for code lookup:', { storefront, params });
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Searches for content on Apple Music, by ISRC or UPC when the source has
+ * one and otherwise with multiple text search strategies. When a region is
+ * given only that storefront is searched, so the returned link plays there.
  */
 export async function searchAppleMusicContent(
-  sourceMetadata: DetailedMetadata
+  sourceMetadata: DetailedMetadata,
+  region?: string
 ): Promise<AppleMusicSearchResult> {
-  const token = await getAppleMusicToken();
+  const codeMatch = await findByCode(sourceMetadata, region);
+  if (codeMatch) {
+    return {
+      appleMusicUrl: codeMatch.attributes.url,
+      metadata: mapAppleMusicResponse(codeMatch)
+    };
+  }
+
   const queries = generateSearchQueries(sourceMetadata);
+  const candidates: SearchCandidates = new Map();
   let lastError: Error | null = null;
   let bestMatchSoFar: { result: AppleMusicTrack; score: number } | null = null;
 
@@ -416,77 +468,74 @@ export async function searchAppleMusicContent(
                 sourceMetadata.type === 'album' ? 'albums' :
                 'artists';
 
-  // Try each query in order until we find a match
-  for (const searchQuery of queries) {
-    try {
-      console.log('Trying Apple Music search query:', searchQuery);
-      
-      const headers: Record<string, string> = {
-        'Authorization': `Bearer ${token}`
-      };
-
-      // Only add Music-User-Token if it exists
-      const userToken = process.env.APPLE_MUSIC_USER_TOKEN;
-      if (userToken) {
-        headers['Music-User-Token'] = userToken;
-      }
-      
-      const response = await axios.get(
-        'https://api.music.apple.com/v1/catalog/us/search', {
-          params: {
-            term: searchQuery,
-            types,
-            limit: 25
-          },
-          headers
-        }
-      );
-
-      console.log('Apple Music API Response:', JSON.stringify(response.data, null, 2));
+  // Local storefronts list native-script titles the US one may lack, so try
+  // them first, then each query in order until we find a match
+  for (const storefront of getSearchStorefronts(sourceMetadata, region)) {
+    for (const searchQuery of queries) {
+      try {
+        console.log('Trying Apple Music search query:', searchQuery, 'in storefront', storefront);
+
+        const response = await withAppleMusicToken(token =>
+          appleMusicHttp.get(`https://api.music.apple.com/v1/catalog/${storefront}/search`, {
+            params: {
+              term: searchQuery,
+              types,
+              limit: 25
+            },
+            headers: getAppleMusicHeaders(token)
+          })
+        );
 
-      const results = response.data.results[types === 'songs' ? 'songs' : types === 'albums' ? 'albums' : 'artists']?.data;
-      if (!results || results.length === 0) {
-        console.log('No results found for query:', searchQuery);
-        continue;
-      }
+        console.log('Apple Music API Response:', JSON.stringify(response.data, null, 2));
 
-      console.log(`Found ${results.length} results for query:`, searchQuery);
+        const results = response.data.results[types === 'songs' ? 'songs' : types === 'albums' ? 'albums' : 'artists']?.data;
+        if (!results || results.length === 0) {
+          console.log('No results found for query:', searchQuery);
+          continue;
+        }
 
-      // Score each result
-      const scored: ScoredResult[] = results.map((result: AppleMusicTrack) => {
-        const score = calculateMatchScore(result, sourceMetadata);
-        console.log('Score for result:', {
-          title: result.attributes.name,
-          artist: result.attributes.artistName,
-          score
+        console.log(`Found ${results.length} results for query:`, searchQuery);
+
+        // Score each result
+        const scored: ScoredResult[] = results.map((result: AppleMusicTrack) => {
+          const score = calculateMatchScore(result, sourceMetadata);
+          console.log('Score for result:', {
+            title: result.attributes.name,
+            artist: result.attributes.artistName,
+            score
+          });
+          addCandidate(candidates, result.attributes.url, mapAppleMusicResponse(result));
+          return { result, score };
         });
-        return { result, score };
-      });
-
-      // Sort by score descending
-      scored.sort((a: ScoredResult, b: ScoredResult) => b.score - a.score);
 
-      // Update best match if we found a better one
-      if (scored.length > 0 && (!bestMatchSoFar || scored[0].score > bestMatchSoFar.score)) {
-        bestMatchSoFar = scored[0];
-        console.log('New best match:', {
-          title: scored[0].result.attributes.name,
-          artist: scored[0].result.attributes.artistName,
-          score: scored[0].score
-        });
-      }
+        // Sort by score descending
+        scored.sort((a: ScoredResult, b: ScoredResult) => b.score - a.score);
+
+        // Update best match if we found a better one
+        if (scored.length > 0 && (!bestMatchSoFar || scored[0].score > bestMatchSoFar.score)) {
+          bestMatchSoFar = scored[0];
+          console.log('New best match:', {
+            title: scored[0].result.attributes.name,
+            artist: scored[0].result.attributes.artistName,
+            score: scored[0].score
+          });
+        }
 
-      // If we have a very good match, use it immediately
-      if (scored[0].score > 0.8) {
-        const bestMatch = scored[0].result;
-        return {
-          appleMusicUrl: bestMatch.attributes.url,
-          metadata: mapAppleMusicResponse(bestMatch)
-        };
+        // If we have a very good match, use it immediately
+        if (scored[0].score > 0.8) {
+          const bestMatch = scored[0].result;
+          return {
+            appleMusicUrl: bestMatch.attributes.url,
+            metadata: mapAppleMusicResponse(bestMatch),
+            alternatives: getAlternatives(candidates, bestMatch.attributes.url)
+          };
+        }
+      } catch (error: any) {
+        console.error('Apple Music search error:', error.message);
+        // Apple Music keeps failing, so the remaining queries would too
+        if (error instanceof CircuitOpenError) throw error;
+        lastError = error;
       }
-    } catch (error: any) {
-      console.error('Apple Music search error:', error.message);
-      lastError = error;
     }
   }
 
@@ -499,9 +548,10 @@ export async function searchAppleMusicContent(
     });
     return {
       appleMusicUrl: bestMatchSoFar.result.attributes.url,
-      metadata: mapAppleMusicResponse(bestMatchSoFar.result)
+      metadata: mapAppleMusicResponse(bestMatchSoFar.result),
+      alternatives: getAlternatives(candidates, bestMatchSoFar.result.attributes.url)
     };
   }
 
-  throw lastError || new Error(`No matching ${sourceMetadata.type} found on Apple Music`);
+  throw lastError || new NoMatchError(`No matching ${sourceMetadata.type} found on Apple Music`);
 } 
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { MusicProvider, ParsedLink } from './providers/types';
+import { parseRegion } from './storefronts';
+import { NotSupportedError } from './errors';
+
+// Storefronts and markets checked when a request doesn't list its own
+const AVAILABILITY_REGIONS = (process.env.AVAILABILITY_REGIONS || 'us,gb,ca,au,de,fr,es,it,nl,se,br,mx,jp,kr,in')
+  .split(',')
+  .map(region => parseRegion(region.trim()))
+  .filter((region): region is string => !!region);
+
+// Most regions one request may ask about
+export const AVAILABILITY_MAX_REGIONS = parseInt(process.env.AVAILABILITY_MAX_REGIONS || '30', 10);
+
+// Regions looked up at once, for providers that need a request per region
+export const AVAILABILITY_CONCURRENCY = parseInt(process.env.AVAILABILITY_CONCURRENCY || '5', 10);
+
+/**
+ * Where a track, album or artist plays, by two-letter region code.
+ */
+export interface AvailabilityReport {
+  provider: string;
+  link: string;
+  type: ParsedLink['type'];
+  regions: Record<string, boolean>;
+  available: string[];
+  unavailable: string[];
+}
+
+/**
+ * Thrown when a provider can't report regional availability, either at all
+ * (services without regional catalogs) or for the kind of content linked.
+ */
+export class AvailabilityNotSupportedError extends NotSupportedError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AvailabilityNotSupportedError';
+  }
+}
+
+/**
+ * Checks which regions a piece of content plays in, using the provider's
+ * own regional catalog data (e.g. Spotify's available markets or Apple
+ * Music storefront lookups).
+ *
+ * @param provider - The provider the link belongs to.
+ * @param parsed - The parsed link.
+ * @param link - The resolved link, reported back in the response.
+ * @param regions - The regions to check. Defaults to AVAILABILITY_REGIONS.
+ * @returns Availability in each region.
+ */
+export async function checkAvailability(
+  provider: MusicProvider,
+  parsed: ParsedLink,
+  link: string,
+  regions: string[] = AVAILABILITY_REGIONS
+): Promise<AvailabilityReport> {
+  if (!provider.getAvailability) {
+    throw new AvailabilityNotSupportedError(`Availability checks are not supported for ${provider.name} links`);
+  }
+
+  const available = await provider.getAvailability(parsed, regions);
+
+  return {
+    provider: provider.id,
+    link,
+    type: parsed.type,
+    regions: Object.fromEntries(regions.map(region => [region, available.includes(region)])),
+    available,
+    unavailable: regions.filter(region => !available.includes(region))
+  };
+}
@@ -0,0 +1,79 @@
+import { ConversionResponse, convertSingleLink } from './conversion';
+import { mapWithConcurrency } from './concurrency';
+import { ErrorCode, toAppError } from './errors';
+import { MusicProvider } from './providers';
+
+// Number of links converted at once
+const BATCH_CONCURRENCY = parseInt(process.env.BATCH_CONCURRENCY || '4', 10);
+
+// Most links accepted in one batch
+export const BATCH_MAX_LINKS = parseInt(process.env.BATCH_MAX_LINKS || '50', 10);
+
+/**
+ * The outcome of converting one link in a batch. Links succeed or fail
+ * independently so one bad link doesn't fail the whole batch.
+ */
+export type BatchConversionResult =
+  | {
+      link: string;
+      status: 'ok';
+      result: ConversionResponse;
+    }
+  | {
+      link: string;
+      status: 'error';
+      error: string;
+      code: ErrorCode;
+    };
+
+/**
+ * The per-link results of a batch, in the order the links were given.
+ */
+export interface BatchConversionResponse {
+  results: BatchConversionResult[];
+  summary: {
+    total: number;
+    converted: number;
+    failed: number;
+  };
+}
+
+/**
+ * Converts links from any mix of providers with bounded concurrency. The
+ * conversions share the access tokens and response cache, so repeated links
+ * are only looked up once.
+ *
+ * @param links - The links to convert.
+ * @param target - The provider to convert every link to. Defaults to each
+ *   link's own default target.
+ * @param region - The storefront or market to search in. Defaults to each
+ *   link's own storefront, if it has one.
+ * @returns The result or error for every link, in input order.
+ */
+export async function convertBatch(
+  links: string[],
+  target?: MusicProvider,
+  region?: string
+): Promise<BatchConversionResponse> {
+  const results = await mapWithConcurrency(links, BATCH_CONCURRENCY, async (link): Promise<BatchConversionResult> => {
+    try {
+      const result = await convertSingleLink(link, target, region, { allowPlaylists: false });
+      return { link, status: 'ok', result: result as ConversionResponse };
+    } catch (error: any) {
+      console.error('Batch link conversion error:', { link, error: error.message });
+      const { message, code } = toAppError(error);
+      return { link, status: 'error', error: message, code };
+    }
+  });
+
+  const converted = results.filter(result => result.status === 'ok').length;
+
+  return {
+    results,
+    summary: {
+      total: results.length,
+      converted,
+      failed: results.length - converted
+    }
+  };
+}
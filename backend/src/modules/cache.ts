@@ -0,0 +1,227 @@
+import { promises as fs } from 'fs';
+import { DetailedMetadata } from './metadataExtraction';
+import { writeJsonFile } from './jsonFile';
+import { MusicProvider, ParsedLink, ProviderSearchResult } from './providers/types';
+
+/**
+ * The kinds of data cached, each with its own lifetime.
+ */
+export type CacheNamespace = 'metadata' | 'search' | 'conversion';
+
+// How long entries stay fresh, in seconds. Metadata rarely changes, while
+// search results and conversions pick up new releases and corrections.
+const CACHE_TTLS: Record<CacheNamespace, number> = {
+  metadata: parseInt(process.env.CACHE_TTL_METADATA || '86400', 10),
+  search: parseInt(process.env.CACHE_TTL_SEARCH || '21600', 10),
+  conversion: parseInt(process.env.CACHE_TTL_CONVERSION || '3600', 10)
+};
+
+// Entries kept per namespace before the least recently used are evicted
+const CACHE_MAX_ENTRIES = parseInt(process.env.CACHE_MAX_ENTRIES || '1000', 10);
+
+// Optional file the cache is persisted to, so it survives restarts
+const CACHE_FILE = process.env.CACHE_FILE;
+
+// Delay before changes are written to CACHE_FILE, so bursts of writes are batched
+const PERSIST_DELAY_MS = 5000;
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * A value read through the cache, and whether it came from the cache.
+ */
+export interface CachedValue<T> {
+  value: T;
+  hit: boolean;
+}
+
+/**
+ * A least-recently-used cache with per-entry expiry. Map iteration order is
+ * insertion order, so entries are re-inserted on every read and the first
+ * key is always the least recently used.
+ */
+class LruCache {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) return undefined;
+
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  deleteByPrefix(prefix: string): void {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  toJSON(): [string, CacheEntry][] {
+    const now = Date.now();
+    return [...this.entries].filter(([, entry]) => entry.expiresAt > now);
+  }
+}
+
+const caches: Record<CacheNamespace, LruCache> = {
+  metadata: new LruCache(CACHE_MAX_ENTRIES),
+  search: new LruCache(CACHE_MAX_ENTRIES),
+  conversion: new LruCache(CACHE_MAX_ENTRIES)
+};
+
+// Loads that are in progress, so concurrent requests for the same key share one
+const pending = new Map<string, Promise<unknown>>();
+
+let loadedFromFile: Promise<void> | null = null;
+let persistTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Loads persisted entries from CACHE_FILE, once.
+ */
+function loadFromFile(): Promise<void> {
+  if (!CACHE_FILE) return Promise.resolve();
+
+  if (!loadedFromFile) {
+    loadedFromFile = fs.readFile(CACHE_FILE, 'utf8')
+      .then(contents => {
+        const stored: Partial<Record<CacheNamespace, [string, CacheEntry][]>> = JSON.parse(contents);
+        for (const namespace of Object.keys(caches) as CacheNamespace[]) {
+          for (const [key, entry] of stored[namespace] || []) {
+            if (entry.expiresAt > Date.now()) {
+              caches[namespace].set(key, entry);
+            }
+          }
+        }
+      })
+      .catch((error: any) => {
+        if (error.code !== 'ENOENT') {
+          console.error('Error loading cache:', error.message);
+        }
+      });
+  }
+
+  return loadedFromFile;
+}
+
+/**
+ * Schedules a write of every cache to CACHE_FILE, batching the changes made
+ * in the meantime into one write.
+ */
+function schedulePersist(): void {
+  if (!CACHE_FILE || persistTimer) return;
+
+  const file = CACHE_FILE;
+  persistTimer = setTimeout(async () => {
+    persistTimer = null;
+    try {
+      await writeJsonFile(file, caches);
+    } catch (error: any) {
+      console.error('Error persisting cache:', error.message);
+    }
+  }, PERSIST_DELAY_MS);
+
+  // A pending write shouldn't keep the process alive
+  persistTimer.unref();
+}
+
+/**
+ * Reads a value through the cache: returns the cached value when it's
+ * fresh, otherwise loads it and caches the result for the namespace's TTL.
+ * Failed loads aren't cached.
+ *
+ * @param namespace - The kind of data, which decides its TTL.
+ * @param key - Identifies the value within the namespace, e.g. a canonical link.
+ * @param load - Fetches the value on a cache miss.
+ * @returns The value, and whether it was served from the cache.
+ */
+export async function cached<T>(
+  namespace: CacheNamespace,
+  key: string,
+  load: () => Promise<T>
+): Promise<CachedValue<T>> {
+  await loadFromFile();
+
+  const entry = caches[namespace].get(key);
+  if (entry) {
+    return { value: entry.value as T, hit: true };
+  }
+
+  const pendingKey = `${namespace}:${key}`;
+  const inFlight = pending.get(pendingKey) as Promise<T> | undefined;
+  if (inFlight) {
+    return { value: await inFlight, hit: false };
+  }
+
+  const loading = load();
+  pending.set(pendingKey, loading);
+  try {
+    const value = await loading;
+    caches[namespace].set(key, { value, expiresAt: Date.now() + CACHE_TTLS[namespace] * 1000 });
+    schedulePersist();
+    return { value, hit: false };
+  } finally {
+    pending.delete(pendingKey);
+  }
+}
+
+/**
+ * Drops every entry in a namespace whose key starts with the prefix, e.g.
+ * the cached conversions of a link whose match was corrected.
+ */
+export async function invalidate(namespace: CacheNamespace, prefix: string): Promise<void> {
+  await loadFromFile();
+  caches[namespace].deleteByPrefix(prefix);
+  schedulePersist();
+}
+
+/**
+ * Looks up a link's metadata through the cache, keyed by the parsed link so
+ * every form of a link to the same content shares an entry.
+ */
+export function getCachedMetadata(provider: MusicProvider, parsed: ParsedLink): Promise<CachedValue<DetailedMetadata>> {
+  const key = [parsed.provider, parsed.type, parsed.id, parsed.region || ''].join(':');
+  return cached('metadata', key, () => provider.getMetadata(parsed));
+}
+
+/**
+ * Searches a provider through the cache, keyed by the fields its search
+ * queries and scoring are built from.
+ */
+export function searchCached(
+  provider: MusicProvider,
+  metadata: DetailedMetadata,
+  region?: string
+): Promise<CachedValue<ProviderSearchResult>> {
+  const key = [
+    provider.id,
+    region || '',
+    metadata.type,
+    metadata.isrc || metadata.upc || '',
+    metadata.title,
+    metadata.artist,
+    metadata.album || '',
+    metadata.duration || '',
+    metadata.explicit ?? ''
+  ].join('|').toLowerCase();
+  return cached('search', key, () => provider.search(metadata, region));
+}
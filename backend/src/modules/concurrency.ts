@@ -0,0 +1,30 @@
+/**
+ * Maps over items with at most `limit` mapper calls in flight at once.
+ * Results are returned in the same order as the input items.
+ *
+ * @param items - The items to process.
+ * @param limit - Maximum number of concurrent mapper calls.
+ * @param mapper - Async function applied to each item.
+ * @returns The mapped results, in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  // Each worker keeps pulling the next unprocessed item until none are left
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await mapper(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
@@ -0,0 +1,403 @@
+import { DetailedMetadata } from './metadataExtraction';
+import { calculateMatchConfidence, ConfidenceBreakdown, explainMatchConfidence } from './matchConfidence';
+import { AlbumTrackComparison, applyTrackListConfidence, compareAlbumTracks } from './albumVerification';
+import { convertPlaylist, PlaylistConversionResult, PlaylistMetadata } from './playlistConversion';
+import { findProviderForLink, getDefaultTarget, getProviders, MusicProvider, ParsedLink, ProviderSearchResult } from './providers';
+import { resolveLink } from './linkResolution';
+import { findCorrection } from './corrections';
+import { SearchCandidate } from './searchAlternatives';
+import { cached, getCachedMetadata, invalidate, searchCached } from './cache';
+import { ErrorCode, InvalidRequestError, NotSupportedError, toAppError, UnsupportedLinkError } from './errors';
+
+// Number of runner-up matches returned with each conversion
+const CONVERSION_ALTERNATIVES = parseInt(process.env.CONVERSION_ALTERNATIVES || '5', 10);
+
+/**
+ * A runner-up match, offered in case the best match is the wrong version.
+ */
+export interface RankedAlternative {
+  url: string;
+  metadata: DetailedMetadata;
+  confidence: number;
+  confidenceBreakdown: ConfidenceBreakdown;
+}
+
+/**
+ * Which parts of a conversion were served from the cache rather than
+ * looked up again.
+ */
+export interface CacheStatus {
+  /** The whole conversion was served from the cache */
+  response: boolean;
+  /** The source metadata was served from the cache */
+  metadata: boolean;
+  /** The target's match was served from the cache */
+  match: boolean;
+}
+
+/**
+ * The result of converting a single track, album or artist.
+ */
+export interface ConversionResponse {
+  source: {
+    provider: string;
+    link: string;
+    metadata: DetailedMetadata;
+  };
+  target: {
+    provider: string;
+    url: string;
+    metadata: DetailedMetadata;
+  };
+  confidence: number;
+  /** Whether the match comes from a user-submitted correction rather than a search */
+  corrected: boolean;
+  /** How the confidence was scored, for showing why a match scored low */
+  confidenceBreakdown: ConfidenceBreakdown;
+  /** Other candidates from the search, most confident first */
+  alternatives: RankedAlternative[];
+  /** Track-by-track comparison of the two albums, for album conversions */
+  albumTracks?: AlbumTrackComparison;
+  /** The storefront or market the match was searched in, if one was used */
+  region?: string;
+  cache: CacheStatus;
+}
+
+/**
+ * The per-track report for a converted playlist.
+ */
+export interface PlaylistConversionResponse extends Omit<PlaylistConversionResult, 'playlist'> {
+  mode: 'playlist';
+  source: {
+    provider: string;
+    link: string;
+    playlist: PlaylistMetadata;
+  };
+  target: {
+    provider: string;
+  };
+  /** The storefront or market the tracks were searched in, if one was used */
+  region?: string;
+}
+
+/**
+ * The outcome of matching content on one provider. Each provider succeeds
+ * or fails independently so one failing service doesn't hide the others.
+ */
+export type ProviderLinkResult =
+  | {
+      status: 'ok';
+      url: string;
+      metadata: DetailedMetadata;
+      confidence: number;
+      corrected: boolean;
+      /** Whether the match was served from the cache */
+      cached: boolean;
+    }
+  | {
+      status: 'error';
+      error: string;
+      code: ErrorCode;
+    };
+
+/**
+ * Matches for a link on every registered provider, keyed by provider ID.
+ */
+export interface UniversalLinksResponse {
+  source: {
+    provider: string;
+    link: string;
+    metadata: DetailedMetadata;
+  };
+  links: Record<string, ProviderLinkResult>;
+  /** The storefront or market the matches were searched in, if one was used */
+  region?: string;
+  cache: Pick<CacheStatus, 'metadata'>;
+}
+
+/**
+ * Converts already-parsed content from the source provider to the target provider.
+ * Conversions of the same content to the same target and region are cached,
+ * apart from playlists, whose tracks are cached individually.
+ *
+ * @param source - The provider the link belongs to.
+ * @param parsed - The parsed source link.
+ * @param target - The provider to find matching content on.
+ * @param link - The resolved source link, reported back in the response.
+ * @param region - The storefront or market to search in. Defaults to the
+ *   source link's own storefront, if it has one.
+ * @returns The matched content, or a per-track report for playlists.
+ */
+export async function convertLink(
+  source: MusicProvider,
+  parsed: ParsedLink,
+  target: MusicProvider,
+  link: string,
+  region: string | undefined = parsed.region
+): Promise<ConversionResponse | PlaylistConversionResponse> {
+  if (parsed.type === 'playlist') {
+    if (!source.getPlaylist) {
+      throw new NotSupportedError(`Playlists are not supported on ${source.name}`);
+    }
+
+    const fetched = await source.getPlaylist(parsed, region);
+    const { playlist, ...report } = await convertPlaylist(fetched, target, region);
+    return {
+      mode: 'playlist',
+      source: { provider: source.id, link, playlist },
+      target: { provider: target.id },
+      ...report,
+      region
+    };
+  }
+
+  const { value: response, hit } = await cached(
+    'conversion',
+    getConversionKey(parsed, target.id, region),
+    () => matchContent(source, parsed, target, link, region)
+  );
+
+  return hit
+    ? { ...response, source: { ...response.source, link }, cache: { ...response.cache, response: true } }
+    : response;
+}
+
+/**
+ * Converts a link as given by a user: resolves short links, finds the
+ * provider it belongs to and converts it to the target provider. Shared by
+ * `GET /convert` and batch conversions.
+ *
+ * @param link - The link to convert.
+ * @param target - The provider to convert to. Defaults to the link
+ *   provider's default target.
+ * @param region - The storefront or market to search in. Defaults to the
+ *   link's own storefront, if it has one.
+ * @param options.allowPlaylists - Whether playlist links are converted, or
+ *   rejected (batches convert playlists one at a time).
+ * @returns The matched content, or a per-track report for playlists.
+ */
+export async function convertSingleLink(
+  link: string,
+  target?: MusicProvider,
+  region?: string,
+  { allowPlaylists = true }: { allowPlaylists?: boolean } = {}
+): Promise<ConversionResponse | PlaylistConversionResponse> {
+  const resolvedLink = await resolveLink(link);
+  const source = findProviderForLink(resolvedLink);
+  if (!source) {
+    throw new UnsupportedLinkError(`Unsupported link type. Please provide a link from one of: ${getProviders().map(p => p.name).join(', ')}.`);
+  }
+
+  const linkTarget = target || getDefaultTarget(source);
+  if (!linkTarget || linkTarget.id === source.id) {
+    throw new InvalidRequestError('target must be a different provider than the link');
+  }
+
+  const parsed = source.parseLink(resolvedLink);
+  if (parsed.type === 'playlist' && !allowPlaylists) {
+    throw new NotSupportedError('Playlists must be converted one at a time');
+  }
+
+  return convertLink(source, parsed, linkTarget, resolvedLink, region ?? parsed.region);
+}
+
+/**
+ * Removes the cached conversions of some content to a target provider, e.g.
+ * after its match was corrected, in every region.
+ *
+ * @param parsed - The parsed source link.
+ * @param targetProvider - The ID of the provider converted to.
+ */
+export function forgetConversions(parsed: ParsedLink, targetProvider: string): Promise<void> {
+  return invalidate('conversion', getConversionKey(parsed, targetProvider));
+}
+
+/**
+ * Builds the cache key for converting some content to a target provider.
+ * Without a region, the key is the prefix shared by every region's entry.
+ */
+function getConversionKey(parsed: ParsedLink, targetProvider: string, region?: string): string {
+  const key = `${parsed.provider}:${parsed.type}:${parsed.id}:${targetProvider}:`;
+  return region === undefined ? key : `${key}${region}`;
+}
+
+/**
+ * Looks up the source content and finds and scores its match on the target.
+ */
+async function matchContent(
+  source: MusicProvider,
+  parsed: ParsedLink,
+  target: MusicProvider,
+  link: string,
+  region?: string
+): Promise<ConversionResponse> {
+  const { value: sourceMetadata, hit: metadataHit } = await getCachedMetadata(source, parsed);
+  const targetResult = await findMatch(parsed, sourceMetadata, target, region);
+  let confidenceBreakdown = explainMatchConfidence(sourceMetadata, targetResult.metadata);
+
+  const albumTracks = sourceMetadata.type === 'album'
+    ? await verifyAlbumTracks(sourceMetadata, target, targetResult.url)
+    : undefined;
+  if (albumTracks) {
+    confidenceBreakdown = applyTrackListConfidence(confidenceBreakdown, albumTracks);
+  }
+
+  return {
+    source: { provider: source.id, link, metadata: sourceMetadata },
+    target: { provider: target.id, url: targetResult.url, metadata: targetResult.metadata },
+    confidence: confidenceBreakdown.score,
+    corrected: targetResult.corrected,
+    confidenceBreakdown,
+    alternatives: rankAlternatives(sourceMetadata, targetResult.alternatives || []),
+    albumTracks,
+    region,
+    cache: { response: false, metadata: metadataHit, match: targetResult.cached }
+  };
+}
+
+/**
+ * Finds the target's match for the source content: the user-submitted
+ * correction when there is one, otherwise the best search result. A
+ * correction whose content can no longer be looked up falls back to search.
+ * Corrections on regional services are linked in the requested region.
+ * Lookups and searches go through the cache.
+ */
+async function findMatch(
+  parsed: ParsedLink,
+  sourceMetadata: DetailedMetadata,
+  target: MusicProvider,
+  region?: string
+): Promise<ProviderSearchResult & { corrected: boolean; cached: boolean }> {
+  const correction = await findCorrection(parsed, target.id);
+  if (correction) {
+    try {
+      const corrected = target.parseLink(correction.target.url);
+      const url = region && corrected.region && corrected.region !== region
+        ? target.buildUrl(corrected.type, corrected.id, region)
+        : correction.target.url;
+      const { value: metadata, hit } = await getCachedMetadata(target, { ...corrected, region: region || corrected.region });
+      return { url, metadata, corrected: true, cached: hit };
+    } catch (error: any) {
+      console.error(`${target.name} correction lookup error:`, error.message);
+    }
+  }
+
+  const { value: result, hit } = await searchCached(target, sourceMetadata, region);
+  return { ...result, corrected: false, cached: hit };
+}
+
+/**
+ * Scores the candidates a search didn't choose with the same confidence
+ * measure as the best match and keeps the top few. Searches rank with their
+ * own service-specific scores, so the order is recomputed here.
+ */
+function rankAlternatives(sourceMetadata: DetailedMetadata, candidates: SearchCandidate[]): RankedAlternative[] {
+  return candidates
+    .map(candidate => {
+      const confidenceBreakdown = explainMatchConfidence(sourceMetadata, candidate.metadata);
+      return {
+        url: candidate.url,
+        metadata: candidate.metadata,
+        confidence: confidenceBreakdown.score,
+        confidenceBreakdown
+      };
+    })
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, CONVERSION_ALTERNATIVES);
+}
+
+/**
+ * Compares the source album's track listing with the matched album's.
+ *
+ * Search results don't include track listings, so the matched album is
+ * looked up again through its link. Returns undefined when either side's
+ * listing is unavailable; verification never fails the conversion.
+ */
+async function verifyAlbumTracks(
+  sourceMetadata: DetailedMetadata,
+  target: MusicProvider,
+  targetUrl: string
+): Promise<AlbumTrackComparison | undefined> {
+  if (!sourceMetadata.tracks?.length) return undefined;
+
+  try {
+    const { value: targetMetadata } = await getCachedMetadata(target, target.parseLink(targetUrl));
+    if (!targetMetadata.tracks?.length) return undefined;
+
+    return compareAlbumTracks(sourceMetadata.tracks, targetMetadata.tracks);
+  } catch (error: any) {
+    console.error(`${target.name} album track lookup error:`, error.message);
+    return undefined;
+  }
+}
+
+/**
+ * Finds matching content on every registered provider at once.
+ *
+ * The source provider is included with the original link so the response
+ * can be shared as-is. All other providers are searched in parallel.
+ *
+ * @param source - The provider the link belongs to.
+ * @param parsed - The parsed source link.
+ * @param link - The resolved source link.
+ * @param region - The storefront or market to search in. Defaults to the
+ *   source link's own storefront, if it has one.
+ * @returns The match (or error) for every provider.
+ */
+export async function findLinksOnAllProviders(
+  source: MusicProvider,
+  parsed: ParsedLink,
+  link: string,
+  region: string | undefined = parsed.region
+): Promise<UniversalLinksResponse> {
+  if (parsed.type === 'playlist') {
+    throw new NotSupportedError('Playlists can only be converted to one provider at a time');
+  }
+
+  const { value: sourceMetadata, hit: metadataHit } = await getCachedMetadata(source, parsed);
+  const targets = getProviders().filter(provider => provider.id !== source.id);
+
+  const results = await Promise.allSettled(
+    targets.map(target => findMatch(parsed, sourceMetadata, target, region))
+  );
+
+  const links: Record<string, ProviderLinkResult> = {
+    [source.id]: {
+      status: 'ok',
+      url: link,
+      metadata: sourceMetadata,
+      confidence: 100,
+      corrected: false,
+      cached: metadataHit
+    }
+  };
+
+  results.forEach((result, index) => {
+    const target = targets[index];
+    if (result.status === 'fulfilled') {
+      links[target.id] = {
+        status: 'ok',
+        url: result.value.url,
+        metadata: result.value.metadata,
+        confidence: calculateMatchConfidence(sourceMetadata, result.value.metadata),
+        corrected: result.value.corrected,
+        cached: result.value.cached
+      };
+    } else {
+      console.error(`${target.name} search error:`, result.reason?.message);
+      const { message, code } = toAppError(result.reason);
+      links[target.id] = {
+        status: 'error',
+        error: message || `No match found on ${target.name}`,
+        code
+      };
+    }
+  });
+
+  return {
+    source: { provider: source.id, link, metadata: sourceMetadata },
+    links,
+    region,
+    cache: { metadata: metadataHit }
+  };
+}
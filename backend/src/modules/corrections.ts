@@ -0,0 +1,174 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LinkContentType, ParsedLink } from './providers/types';
+import { AppError } from './errors';
+import { DetailedMetadata } from './metadataExtraction';
+import { calculateMatchConfidence } from './matchConfidence';
+import { writeJsonFile } from './jsonFile';
+
+// Where corrections are persisted, so they survive restarts
+const CORRECTIONS_FILE = process.env.CORRECTIONS_FILE || path.join(process.cwd(), 'data', 'corrections.json');
+
+// Corrections apply for everyone, so the correct content must score at least
+// this confidence against the source to rule out unrelated links
+const CORRECTION_MIN_CONFIDENCE = parseInt(process.env.CORRECTION_MIN_CONFIDENCE || '40', 10);
+
+/**
+ * A user-submitted fix: the content on the target provider that a source
+ * link should convert to, used instead of searching.
+ */
+export interface Correction {
+  source: {
+    provider: string;
+    type: LinkContentType;
+    id: string;
+    link: string;
+  };
+  target: {
+    provider: string;
+    url: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Thrown when a submitted correction can't be accepted, e.g. because its
+ * links point to different kinds of content.
+ */
+export class InvalidCorrectionError extends AppError {
+  constructor(message: string) {
+    super(message, 'invalid_correction', 400);
+    this.name = 'InvalidCorrectionError';
+  }
+}
+
+// Corrections keyed by source content and target provider, loaded on first
+// use. The promise is kept so concurrent first requests share one read.
+let corrections: Promise<Map<string, Correction>> | null = null;
+
+// Writes are chained so concurrent submissions don't interleave
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Builds the store key for a source item converted to a target provider.
+ * Keys use the parsed ID rather than the link, so every form of a link to
+ * the same content shares its correction.
+ */
+function getKey(source: Pick<ParsedLink, 'provider' | 'type' | 'id'>, targetProvider: string): string {
+  return `${source.provider}:${source.type}:${source.id}:${targetProvider}`;
+}
+
+/**
+ * Loads the stored corrections, starting empty when there is no file yet.
+ */
+function loadCorrections(): Promise<Map<string, Correction>> {
+  if (!corrections) {
+    corrections = fs.readFile(CORRECTIONS_FILE, 'utf8')
+      .then(contents => {
+        const stored: Correction[] = JSON.parse(contents);
+        return new Map(stored.map(correction => [getKey(correction.source, correction.target.provider), correction]));
+      })
+      .catch((error: any) => {
+        if (error.code !== 'ENOENT') {
+          console.error('Error loading corrections:', error.message);
+        }
+        return new Map<string, Correction>();
+      });
+  }
+
+  return corrections;
+}
+
+/**
+ * Writes every correction to the store file.
+ */
+function persistCorrections(store: Map<string, Correction>): Promise<void> {
+  pendingWrite = pendingWrite
+    .catch(() => undefined)
+    .then(() => writeJsonFile(CORRECTIONS_FILE, [...store.values()], 2));
+
+  return pendingWrite;
+}
+
+/**
+ * Finds the correction for a source item converted to a target provider.
+ *
+ * @param parsed - The parsed source link.
+ * @param targetProvider - The ID of the provider being converted to.
+ * @returns The correction, or undefined when none was submitted.
+ */
+export async function findCorrection(parsed: ParsedLink, targetProvider: string): Promise<Correction | undefined> {
+  const store = await loadCorrections();
+  return store.get(getKey(parsed, targetProvider));
+}
+
+/**
+ * Checks that a correction links two providers' versions of the same kind of
+ * content. Needs no lookups, so it runs before the links are fetched.
+ *
+ * @param source - The parsed source link.
+ * @param target - The parsed link to the correct content.
+ */
+export function validateCorrection(source: ParsedLink, target: ParsedLink): void {
+  if (source.provider === target.provider) {
+    throw new InvalidCorrectionError('The correct link must be on a different provider than the source link');
+  }
+  if (source.type !== target.type) {
+    throw new InvalidCorrectionError(`The correct link must point to the same kind of content as the source link (${source.type}, not ${target.type})`);
+  }
+  if (source.type === 'playlist') {
+    throw new InvalidCorrectionError('Playlists are converted track by track and cannot be corrected');
+  }
+}
+
+/**
+ * Checks that the correct content is plausibly the same work as the source,
+ * by scoring it like a search match.
+ *
+ * @param sourceMetadata - The source content.
+ * @param targetMetadata - The content the correction points to.
+ */
+export function checkCorrectionMatches(sourceMetadata: DetailedMetadata, targetMetadata: DetailedMetadata): void {
+  const confidence = calculateMatchConfidence(sourceMetadata, targetMetadata);
+  if (confidence < CORRECTION_MIN_CONFIDENCE) {
+    throw new InvalidCorrectionError(
+      `"${targetMetadata.title}" by ${targetMetadata.artist} doesn't look like the same ${sourceMetadata.type} as "${sourceMetadata.title}" by ${sourceMetadata.artist} (${confidence}% confidence)`
+    );
+  }
+}
+
+/**
+ * Stores a correction, replacing any earlier one for the same source item
+ * and target provider.
+ *
+ * @param source - The parsed source link.
+ * @param sourceLink - The resolved source link, kept for reference.
+ * @param target - The parsed link to the correct content.
+ * @param targetUrl - The canonical link to the correct content.
+ * @returns The stored correction.
+ */
+export async function saveCorrection(
+  source: ParsedLink,
+  sourceLink: string,
+  target: ParsedLink,
+  targetUrl: string
+): Promise<Correction> {
+  validateCorrection(source, target);
+
+  const store = await loadCorrections();
+  const key = getKey(source, target.provider);
+  const now = new Date().toISOString();
+
+  const correction: Correction = {
+    source: { provider: source.provider, type: source.type, id: source.id, link: sourceLink },
+    target: { provider: target.provider, url: targetUrl },
+    createdAt: store.get(key)?.createdAt || now,
+    updatedAt: now
+  };
+
+  store.set(key, correction);
+  await persistCorrections(store);
+
+  return correction;
+}
@@ -0,0 +1,282 @@
+import { DetailedMetadata } from './metadataExtraction';
+import { addCandidate, getAlternatives, SearchCandidate, SearchCandidates } from './searchAlternatives';
+import { DeezerMetadata } from './linkConversion';
+import { calculateMatchConfidence } from './matchConfidence';
+import { cleanText, getMainArtist, removeFeaturingArtists } from './textNormalization';
+import { ContentNotFoundError, NoMatchError, UpstreamError, UpstreamRateLimitError } from './errors';
+import { CircuitOpenError, createHttpClient } from './httpClient';
+
+// Deezer's public API needs no credentials. The base URL can be overridden
+// to point at a local stand-in during development and testing.
+const DEEZER_API_URL = process.env.DEEZER_API_URL || 'https://api.deezer.com';
+
+// Shared by every Deezer request, so they retry and trip the circuit together
+const deezerHttp = createHttpClient('Deezer');
+
+interface DeezerSearchResult {
+  deezerUrl: string;
+  metadata: DetailedMetadata;
+  /** Other results the search considered, for picking a different match */
+  alternatives?: SearchCandidate[];
+}
+
+/**
+ * Performs a GET request against the Deezer API.
+ *
+ * Deezer reports most errors with a 200 status and an `error` object in the
+ * body, so those are turned into exceptions here.
+ */
+async function deezerGet(path: string, params?: Record<string, string | number>): Promise<any> {
+  const response = await deezerHttp.get(`${DEEZER_API_URL}${path}`, { params });
+
+  if (response.data?.error) {
+    const { type, message } = response.data.error;
+    if (type === 'DataException') throw new ContentNotFoundError(`Deezer API error (${type}): ${message}`);
+    if (type === 'QuotaException') throw new UpstreamRateLimitError(`Deezer API error (${type}): ${message}`);
+    throw new UpstreamError(`Deezer API error (${type}): ${message}`);
+  }
+
+  return response.data;
+}
+
+/**
+ * Builds the Deezer URL for a piece of content.
+ */
+export function buildDeezerUrl(type: DetailedMetadata['type'], id: string | number): string {
+  return `https://www.deezer.com/${type}/${id}`;
+}
+
+/**
+ * Maps a Deezer track object to our metadata format
+ */
+function mapDeezerTrack(track: any): DetailedMetadata {
+  // Full track objects list every credited artist; search results only have the main one
+  const artists: string[] = track.contributors?.length
+    ? track.contributors.map((c: any) => c.name)
+    : [track.artist?.name].filter(Boolean);
+
+  return {
+    type: 'track',
+    title: track.title,
+    artist: artists.join(', '),
+    album: track.album?.title,
+    artworkUrl: track.album?.cover_xl || track.album?.cover_big,
+    releaseDate: track.release_date,
+    trackNumber: track.track_position,
+    discNumber: track.disk_number,
+    isrc: track.isrc,
+    duration: track.duration ? track.duration * 1000 : undefined,
+    explicit: track.explicit_lyrics,
+    previewUrl: track.preview || undefined
+  };
+}
+
+/**
+ * Maps a Deezer album object to our metadata format
+ */
+function mapDeezerAlbum(album: any): DetailedMetadata {
+  return {
+    type: 'album',
+    title: album.title,
+    artist: album.artist?.name,
+    artworkUrl: album.cover_xl || album.cover_big,
+    releaseDate: album.release_date,
+    genres: album.genres?.data?.map((g: any) => g.name),
+    totalTracks: album.nb_tracks,
+    upc: album.upc,
+    explicit: album.explicit_lyrics
+  };
+}
+
+/**
+ * Maps a Deezer artist object to our metadata format
+ */
+function mapDeezerArtist(artist: any): DetailedMetadata {
+  return {
+    type: 'artist',
+    title: artist.name,
+    artist: artist.name,
+    artworkUrl: artist.picture_xl || artist.picture_big
+  };
+}
+
+/**
+ * Gets detailed metadata from Deezer for a given track/album/artist.
+ *
+ * @param deezerData - The parsed Deezer metadata.
+ * @returns Detailed metadata about the content.
+ */
+export async function getDeezerDetailedMetadata(deezerData: DeezerMetadata): Promise<DetailedMetadata> {
+  const item = await deezerGet(`/${deezerData.type}/${deezerData.id}`);
+
+  switch (deezerData.type) {
+    case 'track':
+      return mapDeezerTrack(item);
+    case 'album':
+      return {
+        ...mapDeezerAlbum(item),
+        tracks: await getDeezerAlbumTracks(item)
+      };
+    case 'artist':
+      return mapDeezerArtist(item);
+  }
+}
+
+/**
+ * Fetches the full track listing of a Deezer album. The album object only
+ * embeds abbreviated tracks, while the tracks endpoint includes ISRCs and
+ * disc numbers.
+ */
+async function getDeezerAlbumTracks(album: any): Promise<DetailedMetadata[]> {
+  const response = await deezerGet(`/album/${album.id}/tracks`, { limit: 500 });
+
+  return (response.data || []).map((track: any) => ({
+    ...mapDeezerTrack(track),
+    album: album.title
+  }));
+}
+
+/**
+ * Looks content up directly by ISRC (tracks) or UPC (albums), which Deezer
+ * supports as special IDs. Returns null if there is no code or no hit;
+ * other failures are thrown, since a text search would run into them too.
+ */
+async function findByCode(sourceMetadata: DetailedMetadata): Promise<any | null> {
+  const lookup = sourceMetadata.type === 'track' && sourceMetadata.isrc ? `/track/isrc:${sourceMetadata.isrc}` :
+                 sourceMetadata.type === 'album' && sourceMetadata.upc ? `/album/upc:${sourceMetadata.upc}` :
+                 null;
+  if (!lookup) return null;
+
+  try {
+    return await deezerGet(lookup);
+  } catch (error: any) {
+    if (!(error instanceof ContentNotFoundError)) throw error;
+    console.log('No Deezer match for code lookup:', lookup, error.message);
+    return null;
+  }
+}
+
+/**
+ * Generates multiple search queries with different variations, from most
+ * to least specific, using Deezer's advanced search syntax.
+ */
+function generateSearchQueries(metadata: DetailedMetadata): string[] {
+  const queries: string[] = [];
+  const artist = cleanText(metadata.artist);
+
+  if (metadata.type === 'artist') {
+    queries.push(`artist:"${artist}"`);
+    queries.push(artist);
+    return queries;
+  }
+
+  const title = cleanText(metadata.title);
+  const cleanTitle = cleanText(removeFeaturingArtists(metadata.title));
+  // Deezer only credits the main artist in search, so try the first one alone too
+  const mainArtist = cleanText(getMainArtist(metadata.artist));
+
+  if (metadata.type === 'track') {
+    queries.push(`track:"${title}" artist:"${artist}"`);
+    if (cleanTitle !== title) {
+      queries.push(`track:"${cleanTitle}" artist:"${artist}"`);
+    }
+    if (mainArtist !== artist) {
+      queries.push(`track:"${cleanTitle}" artist:"${mainArtist}"`);
+    }
+    if (metadata.album) {
+      queries.push(`track:"${cleanTitle}" album:"${cleanText(metadata.album)}"`);
+    }
+  } else {
+    queries.push(`album:"${title}" artist:"${artist}"`);
+    if (cleanTitle !== title) {
+      queries.push(`album:"${cleanTitle}" artist:"${artist}"`);
+    }
+    if (mainArtist !== artist) {
+      queries.push(`album:"${cleanTitle}" artist:"${mainArtist}"`);
+    }
+  }
+
+  // Try just the main title and artist (more permissive)
+  queries.push(`${cleanTitle} ${mainArtist}`);
+
+  return [...new Set(queries)];
+}
+
+/**
+ * Searches for content on Deezer, first by ISRC/UPC and then using
+ * multiple text search strategies
+ */
+export async function searchDeezerContent(
+  sourceMetadata: DetailedMetadata
+): Promise<DeezerSearchResult> {
+  const codeMatch = await findByCode(sourceMetadata);
+  if (codeMatch) {
+    const metadata = sourceMetadata.type === 'track' ? mapDeezerTrack(codeMatch) : mapDeezerAlbum(codeMatch);
+    return {
+      deezerUrl: buildDeezerUrl(sourceMetadata.type, codeMatch.id),
+      metadata
+    };
+  }
+
+  const queries = generateSearchQueries(sourceMetadata);
+  const mapResult = sourceMetadata.type === 'track' ? mapDeezerTrack :
+                    sourceMetadata.type === 'album' ? mapDeezerAlbum :
+                    mapDeezerArtist;
+  const candidates: SearchCandidates = new Map();
+  let lastError: Error | null = null;
+  let bestMatchSoFar: { item: any; metadata: DetailedMetadata; score: number } | null = null;
+
+  for (const searchQuery of queries) {
+    try {
+      console.log('Trying Deezer search query:', searchQuery);
+
+      const response = await deezerGet(`/search/${sourceMetadata.type}`, {
+        q: searchQuery,
+        limit: 10
+      });
+
+      const items: any[] = response.data || [];
+      if (items.length === 0) {
+        console.log('No results found for query:', searchQuery);
+        continue;
+      }
+
+      const scored = items.map(item => {
+        const metadata = mapResult(item);
+        addCandidate(candidates, buildDeezerUrl(sourceMetadata.type, item.id), metadata);
+        return { item, metadata, score: calculateMatchConfidence(sourceMetadata, metadata) };
+      });
+      scored.sort((a, b) => b.score - a.score);
+
+      if (!bestMatchSoFar || scored[0].score > bestMatchSoFar.score) {
+        bestMatchSoFar = scored[0];
+      }
+
+      // If we have a very good match, use it immediately
+      if (scored[0].score >= 85) {
+        break;
+      }
+    } catch (error: any) {
+      console.error('Deezer search error:', {
+        message: error.message,
+        response: error.response?.data,
+        status: error.response?.status,
+        query: searchQuery
+      });
+      // Deezer keeps failing, so the remaining queries would too
+      if (error instanceof CircuitOpenError) throw error;
+      lastError = error;
+    }
+  }
+
+  if (bestMatchSoFar && bestMatchSoFar.score >= 50) {
+    const deezerUrl = buildDeezerUrl(sourceMetadata.type, bestMatchSoFar.item.id);
+    return {
+      deezerUrl,
+      metadata: bestMatchSoFar.metadata,
+      alternatives: getAlternatives(candidates, deezerUrl)
+    };
+  }
+
+  throw lastError || new NoMatchError(`No matching ${sourceMetadata.type} found on Deezer`);
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from '@jest/globals';
+import { parseIsoDuration } from './duration';
+
+describe('parseIsoDuration', () => {
+  it('converts minutes and seconds to milliseconds', () => {
+    expect(parseIsoDuration('PT3M21S')).toBe(201000);
+  });
+
+  it('handles days, hours and fractional seconds', () => {
+    expect(parseIsoDuration('P1DT2H')).toBe(93600000);
+    expect(parseIsoDuration('PT3M21.5S')).toBe(201500);
+  });
+
+  it('returns undefined for missing or malformed durations', () => {
+    expect(parseIsoDuration(undefined)).toBeUndefined();
+    expect(parseIsoDuration('3:21')).toBeUndefined();
+  });
+});
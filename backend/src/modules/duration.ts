@@ -0,0 +1,13 @@
+/**
+ * Converts an ISO 8601 duration (e.g. PT3M21S, P1DT2H or PT3M21.5S) to
+ * milliseconds. Returns undefined for missing or malformed durations.
+ */
+export function parseIsoDuration(duration?: string): number | undefined {
+  if (!duration) return undefined;
+
+  const match = duration.match(/^P(?:(\d+)D)?T?(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?$/);
+  if (!match) return undefined;
+
+  const [, days, hours, minutes, seconds] = match.map(part => parseFloat(part || '0'));
+  return Math.round((((days * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000);
+}
@@ -0,0 +1,145 @@
+import axios from 'axios';
+
+/**
+ * Stable, machine-readable identifiers for the ways a request can fail,
+ * returned as `code` in error responses.
+ */
+export type ErrorCode =
+  | 'invalid_request'
+  | 'invalid_link'
+  | 'unsupported_link'
+  | 'link_resolution_failed'
+  | 'invalid_correction'
+  | 'not_supported'
+  | 'content_not_found'
+  | 'no_match'
+  | 'upstream_rate_limited'
+  | 'upstream_unavailable'
+  | 'upstream_error'
+  | 'credentials_missing'
+  | 'internal_error';
+
+/**
+ * Base class for errors with a known cause, carrying the HTTP status and
+ * error code the API responds with.
+ */
+export class AppError extends Error {
+  constructor(message: string, readonly code: ErrorCode, readonly status: number) {
+    super(message);
+    this.name = 'AppError';
+  }
+}
+
+/**
+ * Thrown when a request is missing a parameter or has an invalid one.
+ */
+export class InvalidRequestError extends AppError {
+  constructor(message: string) {
+    super(message, 'invalid_request', 400);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+/**
+ * Thrown when a link isn't from any registered provider.
+ */
+export class UnsupportedLinkError extends AppError {
+  constructor(message: string) {
+    super(message, 'unsupported_link', 400);
+    this.name = 'UnsupportedLinkError';
+  }
+}
+
+/**
+ * Thrown when an operation isn't available for a provider or kind of
+ * content, e.g. converting a playlist from a service without playlist support.
+ */
+export class NotSupportedError extends AppError {
+  constructor(message: string) {
+    super(message, 'not_supported', 400);
+    this.name = 'NotSupportedError';
+  }
+}
+
+/**
+ * Thrown when the content a link points to doesn't exist on its provider.
+ */
+export class ContentNotFoundError extends AppError {
+  constructor(message: string) {
+    super(message, 'content_not_found', 404);
+    this.name = 'ContentNotFoundError';
+  }
+}
+
+/**
+ * Thrown when a search finds nothing matching the source content on the
+ * target provider.
+ */
+export class NoMatchError extends AppError {
+  constructor(message: string) {
+    super(message, 'no_match', 404);
+    this.name = 'NoMatchError';
+  }
+}
+
+/**
+ * Thrown when a provider's API credentials aren't configured.
+ */
+export class CredentialsMissingError extends AppError {
+  constructor(message: string) {
+    super(message, 'credentials_missing', 503);
+    this.name = 'CredentialsMissingError';
+  }
+}
+
+/**
+ * Thrown when an upstream API answers with an unexpected error.
+ */
+export class UpstreamError extends AppError {
+  constructor(message: string, code: ErrorCode = 'upstream_error', status = 502) {
+    super(message, code, status);
+    this.name = 'UpstreamError';
+  }
+}
+
+/**
+ * Thrown when an upstream API keeps rate limiting requests.
+ */
+export class UpstreamRateLimitError extends UpstreamError {
+  constructor(message: string) {
+    super(message, 'upstream_rate_limited', 429);
+    this.name = 'UpstreamRateLimitError';
+  }
+}
+
+/**
+ * Thrown when an upstream API is down, times out or keeps failing.
+ */
+export class UpstreamUnavailableError extends UpstreamError {
+  constructor(message: string) {
+    super(message, 'upstream_unavailable', 503);
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+/**
+ * Converts any error into an `AppError` for the response. Failed requests
+ * to upstream APIs are classified by their status, and anything else is an
+ * internal error.
+ */
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+
+  if (axios.isAxiosError(error)) {
+    const host = error.config?.url ? new URL(error.config.url, 'http://localhost').hostname : 'An upstream service';
+    const status = error.response?.status;
+
+    if (status === 404) return new ContentNotFoundError(`The requested content was not found (${host})`);
+    if (status === 429) return new UpstreamRateLimitError(`${host} is rate limiting requests, please try again later`);
+    if (status === undefined || status >= 500) return new UpstreamUnavailableError(`${host} is currently unavailable, please try again later`);
+    return new UpstreamError(`${host} rejected the request (${status})`);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new AppError(message, 'internal_error', 500);
+}
@@ -0,0 +1,150 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { UpstreamUnavailableError } from './errors';
+
+// Milliseconds before a request to an upstream API is abandoned
+const HTTP_TIMEOUT_MS = parseInt(process.env.HTTP_TIMEOUT_MS || '10000', 10);
+
+// Retries after a rate limit, server error or network failure
+const HTTP_MAX_RETRIES = parseInt(process.env.HTTP_MAX_RETRIES || '3', 10);
+
+// Delay before the first retry, doubled for each one after
+const HTTP_RETRY_BASE_MS = parseInt(process.env.HTTP_RETRY_BASE_MS || '500', 10);
+
+// Longest wait before a retry; a Retry-After beyond this fails the request instead
+const HTTP_RETRY_MAX_MS = parseInt(process.env.HTTP_RETRY_MAX_MS || '10000', 10);
+
+// Consecutive failed requests that open an upstream's circuit
+const CIRCUIT_FAILURE_THRESHOLD = parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || '5', 10);
+
+// Milliseconds an open circuit rejects requests before letting one through to test the upstream
+const CIRCUIT_RESET_MS = parseInt(process.env.CIRCUIT_RESET_MS || '30000', 10);
+
+/**
+ * Thrown instead of sending a request while an upstream's circuit is open,
+ * i.e. after it kept failing.
+ */
+export class CircuitOpenError extends UpstreamUnavailableError {
+  constructor(upstream: string) {
+    super(`${upstream} is currently unavailable, please try again later`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Sends requests to one upstream API with timeouts, retries and a circuit
+ * breaker. Mirrors the axios methods it replaces.
+ */
+export interface HttpClient {
+  get<T = any>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>>;
+  post<T = any>(url: string, data?: unknown, config?: AxiosRequestConfig): Promise<AxiosResponse<T>>;
+}
+
+/**
+ * Whether a failed request is worth retrying: rate limits, server errors
+ * and requests that never got a response. Other client errors (a 404 for
+ * content that doesn't exist) would fail again.
+ */
+function isRetryable(error: any): boolean {
+  const status = error.response?.status;
+  if (status === undefined) return axios.isAxiosError(error);
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Reads a Retry-After header, given either in seconds or as an HTTP date,
+ * as milliseconds to wait. Returns null when there is none.
+ */
+function getRetryAfter(error: any): number | null {
+  const header = error.response?.headers?.['retry-after'];
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with jitter, so clients that failed together don't
+ * all retry at the same moment.
+ */
+function getBackoff(attempt: number): number {
+  const delay = Math.min(HTTP_RETRY_MAX_MS, HTTP_RETRY_BASE_MS * 2 ** attempt);
+  return delay / 2 + Math.random() * delay / 2;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Creates the client for one upstream API. Each client has its own circuit,
+ * so one failing service doesn't block requests to the others.
+ *
+ * @param upstream - The upstream's name, used in logs and errors.
+ * @returns The client.
+ */
+export function createHttpClient(upstream: string): HttpClient {
+  let consecutiveFailures = 0;
+  let openUntil = 0;
+  let probing = false;
+
+  function recordSuccess(): void {
+    consecutiveFailures = 0;
+    openUntil = 0;
+  }
+
+  function recordFailure(): void {
+    consecutiveFailures++;
+    if (consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+      if (openUntil === 0) {
+        console.error(`${upstream} circuit opened after ${consecutiveFailures} consecutive failures`);
+      }
+      openUntil = Date.now() + CIRCUIT_RESET_MS;
+    }
+  }
+
+  async function request<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    // Once the reset time passes, a single request tests whether the
+    // upstream has recovered while the rest keep failing fast
+    const isOpen = openUntil > 0 && (Date.now() < openUntil || probing);
+    if (isOpen) {
+      throw new CircuitOpenError(upstream);
+    }
+    const isProbe = openUntil > 0;
+    probing = isProbe;
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const response = await axios.request<T>({ timeout: HTTP_TIMEOUT_MS, ...config });
+          recordSuccess();
+          return response;
+        } catch (error: any) {
+          if (!isRetryable(error)) {
+            // The upstream answered, so it's up even if the request was bad
+            if (error.response) recordSuccess();
+            throw error;
+          }
+
+          const delay = getRetryAfter(error) ?? getBackoff(attempt);
+          if (isProbe || attempt >= HTTP_MAX_RETRIES || delay > HTTP_RETRY_MAX_MS) {
+            recordFailure();
+            throw error;
+          }
+
+          console.warn(`${upstream} request failed (${error.response?.status || error.code}), retrying in ${Math.round(delay)}ms`);
+          await sleep(delay);
+        }
+      }
+    } finally {
+      if (isProbe) probing = false;
+    }
+  }
+
+  return {
+    get: (url, config) => request({ ...config, method: 'get', url }),
+    post: (url, data, config) => request({ ...config, method: 'post', url, data })
+  };
+}
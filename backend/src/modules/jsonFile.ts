@@ -0,0 +1,18 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Writes a value to a JSON file, creating its directory if needed. The file
+ * is written under a temporary name and renamed, so a crash mid-write can't
+ * truncate it.
+ *
+ * @param file - The file to write.
+ * @param value - The value to serialize.
+ * @param indent - Spaces to indent with, for files meant to be read by people.
+ */
+export async function writeJsonFile(file: string, value: unknown, indent?: number): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temporaryFile = `${file}.tmp`;
+  await fs.writeFile(temporaryFile, JSON.stringify(value, null, indent));
+  await fs.rename(temporaryFile, file);
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from '@jest/globals';
+import { InvalidLinkError, parseAppleMusicLink, parseSpotifyLink } from './linkConversion';
+
+const ID = '4uLU6hMCjMI75M1A2tKUQC';
+
+describe('parseSpotifyLink', () => {
+  it.each([
+    ['a track link', `https://open.spotify.com/track/${ID}`, 'track'],
+    ['an album link', `https://open.spotify.com/album/${ID}`, 'album'],
+    ['an artist link', `https://open.spotify.com/artist/${ID}`, 'artist'],
+    ['a playlist link', `https://open.spotify.com/playlist/${ID}`, 'playlist'],
+    ['a link with a share parameter', `https://open.spotify.com/track/${ID}?si=a1b2c3d4e5f6`, 'track'],
+    ['a localized link', `https://open.spotify.com/intl-de/track/${ID}`, 'track'],
+    ['a localized link with a region', `https://open.spotify.com/intl-pt-br/album/${ID}`, 'album'],
+    ['an embed link', `https://open.spotify.com/embed/track/${ID}`, 'track'],
+    ['a localized embed link', `https://open.spotify.com/intl-fr/embed/playlist/${ID}`, 'playlist'],
+    ['a legacy playlist link with its owner', `https://open.spotify.com/user/someone/playlist/${ID}`, 'playlist'],
+    ['a play.spotify.com link', `https://play.spotify.com/track/${ID}`, 'track'],
+    ['a URI', `spotify:track:${ID}`, 'track'],
+    ['a legacy playlist URI with its owner', `spotify:user:someone:playlist:${ID}`, 'playlist']
+  ])('parses %s', (_, link, type) => {
+    expect(parseSpotifyLink(link)).toEqual({ type, id: ID });
+  });
+
+  it.each([
+    ['a link to another site', `https://example.com/track/${ID}`],
+    ['an unsupported content type', `https://open.spotify.com/show/${ID}`],
+    ['a link without an ID', 'https://open.spotify.com/track/'],
+    ['an ID that is too short', 'https://open.spotify.com/track/abc123'],
+    ['an ID with invalid characters', 'https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKU-C'],
+    ['a URI with a malformed ID', 'spotify:album:not-an-id']
+  ])('rejects %s', (_, link) => {
+    expect(() => parseSpotifyLink(link)).toThrow(InvalidLinkError);
+  });
+});
+
+describe('parseAppleMusicLink', () => {
+  it('parses a track within an album', () => {
+    expect(parseAppleMusicLink('https://music.apple.com/gb/album/name/1440857781?i=1440857795')).toMatchObject({
+      type: 'track',
+      id: '1440857795',
+      region: 'gb'
+    });
+  });
+
+  it('reports unsupported content types without wrapping the error', () => {
+    expect(() => parseAppleMusicLink('https://music.apple.com/us/curator/name/123')).toThrow(
+      new InvalidLinkError('Unsupported content type: curator')
+    );
+  });
+});
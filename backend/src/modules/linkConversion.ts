@@ -1,12 +1,12 @@
 import { DetailedMetadata } from './metadataExtraction';
-import { searchAppleMusicContent as searchAppleMusic } from './appleMusicApi';
-import axios from 'axios';
+import { spotifyHttp, withSpotifyToken } from './spotifyApi';
+import { AppError, NotSupportedError } from './errors';
 
 /**
  * Represents the metadata that can be extracted from an Apple Music link.
  */
 export interface AppleMusicMetadata {
-  type: 'track' | 'album' | 'artist';
+  type: 'track' | 'album' | 'artist' | 'playlist';
   id: string;
   region: string;
   path: string[];
@@ -16,10 +16,54 @@ export interface AppleMusicMetadata {
  * Represents the metadata that can be extracted from a Spotify link.
  */
 export interface SpotifyMetadata {
+  type: 'track' | 'album' | 'artist' | 'playlist';
+  id: string;
+}
+
+/**
+ * Represents the metadata that can be extracted from a YouTube Music link.
+ */
+export interface YouTubeMusicMetadata {
   type: 'track' | 'album' | 'artist';
   id: string;
 }
 
+/**
+ * Represents the metadata that can be extracted from a Deezer link.
+ */
+export interface DeezerMetadata {
+  type: 'track' | 'album' | 'artist';
+  id: string;
+}
+
+/**
+ * Represents the metadata that can be extracted from a Tidal link.
+ */
+export interface TidalMetadata {
+  type: 'track' | 'album' | 'artist';
+  id: string;
+}
+
+/**
+ * Thrown when a link is malformed or points to content we can't convert.
+ */
+export class InvalidLinkError extends AppError {
+  constructor(message: string) {
+    super(message, 'invalid_link', 400);
+    this.name = 'InvalidLinkError';
+  }
+}
+
+// Spotify IDs are 22 base-62 characters
+const SPOTIFY_ID_PATTERN = /^[0-9A-Za-z]{22}$/;
+
+/**
+ * Checks whether a link path segment names a content type we can convert.
+ */
+function isSupportedContentType(type: string | undefined): type is 'track' | 'album' | 'artist' | 'playlist' {
+  return type !== undefined && ['track', 'album', 'artist', 'playlist'].includes(type);
+}
+
 /**
  * Converts an Apple Music link to structured metadata.
  * 
@@ -27,13 +71,14 @@ export interface SpotifyMetadata {
  * - Track: https://music.apple.com/us/album/song-name/1234567890?i=1234567890
  * - Album: https://music.apple.com/us/album/album-name/1234567890
  * - Artist: https://music.apple.com/us/artist/artist-name/1234567890
+ * - Playlist: https://music.apple.com/us/playlist/playlist-name/pl.1234567890
  * 
  * @param appleMusicLink - The original Apple Music link.
  * @returns The extracted metadata from the link.
  */
 export function parseAppleMusicLink(appleMusicLink: string): AppleMusicMetadata {
   if (!appleMusicLink.includes("music.apple.com")) {
-    throw new Error("Invalid Apple Music link");
+    throw new InvalidLinkError("Invalid Apple Music link");
   }
 
   try {
@@ -44,7 +89,7 @@ export function parseAppleMusicLink(appleMusicLink: string): AppleMusicMetadata
     const region = pathParts[0];
     
     // Determine the type and extract relevant information
-    const type = pathParts[1] as 'track' | 'album' | 'artist';
+    const type = pathParts[1] === 'song' ? 'track' : pathParts[1];
     const id = pathParts[pathParts.length - 1];
     
     // For tracks, we might have an 'i' parameter in the query string
@@ -57,6 +102,10 @@ export function parseAppleMusicLink(appleMusicLink: string): AppleMusicMetadata
         path: pathParts
       };
     }
+
+    if (!isSupportedContentType(type)) {
+      throw new InvalidLinkError(`Unsupported content type: ${type}`);
+    }
     
     return {
       type,
@@ -64,65 +113,202 @@ export function parseAppleMusicLink(appleMusicLink: string): AppleMusicMetadata
       region,
       path: pathParts
     };
-  } catch (error) {
-    throw new Error(`Failed to parse Apple Music link: ${error}`);
+  } catch (error: any) {
+    if (error instanceof InvalidLinkError) throw error;
+    throw new InvalidLinkError(`Failed to parse Apple Music link: ${error.message}`);
   }
 }
 
 /**
- * Parses a Spotify link to extract structured metadata.
+ * Parses a Spotify link or URI to extract structured metadata.
  * 
  * Example links:
  * - Track: https://open.spotify.com/track/1234567890
+ * - Track: https://open.spotify.com/intl-de/track/1234567890?si=abcdef
+ * - Track: https://open.spotify.com/embed/track/1234567890
+ * - Track: spotify:track:1234567890
  * - Album: https://open.spotify.com/album/1234567890
  * - Artist: https://open.spotify.com/artist/1234567890
+ * - Playlist: https://open.spotify.com/playlist/1234567890
+ * - Playlist: spotify:user:username:playlist:1234567890
  * 
- * @param spotifyLink - The original Spotify link.
+ * @param spotifyLink - The original Spotify link or URI.
  * @returns The extracted metadata from the link.
  */
 export function parseSpotifyLink(spotifyLink: string): SpotifyMetadata {
-  if (!spotifyLink.includes("open.spotify.com")) {
-    throw new Error("Invalid Spotify link");
+  let pathParts: string[];
+
+  if (spotifyLink.startsWith('spotify:')) {
+    // URIs copied from the desktop app, e.g. spotify:track:<id>
+    pathParts = spotifyLink.split(/[?#]/)[0].split(':').slice(1);
+  } else if (spotifyLink.includes("open.spotify.com") || spotifyLink.includes("play.spotify.com")) {
+    try {
+      pathParts = new URL(spotifyLink).pathname.split('/');
+    } catch (error) {
+      throw new InvalidLinkError(`Failed to parse Spotify link: ${error}`);
+    }
+  } else {
+    throw new InvalidLinkError("Invalid Spotify link");
+  }
+
+  pathParts = pathParts.filter(part => part.length > 0);
+
+  // Drop locale prefixes (intl-de) and embed player paths
+  while (pathParts.length > 0 && (/^intl-[a-z]{2}(-[a-z]{2})?$/i.test(pathParts[0]) || pathParts[0] === 'embed')) {
+    pathParts.shift();
+  }
+
+  // Legacy playlist links include the owner: /user/<name>/playlist/<id>
+  if (pathParts[0] === 'user' && pathParts[2] === 'playlist') {
+    pathParts = pathParts.slice(2);
+  }
+
+  const [type, id] = pathParts;
+  if (!isSupportedContentType(type)) {
+    throw new InvalidLinkError(`Unsupported content type: ${type}`);
+  }
+  if (!id || !SPOTIFY_ID_PATTERN.test(id)) {
+    throw new InvalidLinkError(`Invalid Spotify ${type} ID: ${id}`);
+  }
+
+  return { type, id };
+}
+
+/**
+ * Parses a YouTube Music (or regular YouTube) link to extract structured metadata.
+ * 
+ * Example links:
+ * - Track: https://music.youtube.com/watch?v=abcdefghijk
+ * - Track: https://www.youtube.com/watch?v=abcdefghijk
+ * - Album: https://music.youtube.com/playlist?list=OLAK5uy_abcdefghijk
+ * - Artist: https://music.youtube.com/channel/UCabcdefghijk
+ * 
+ * @param youtubeLink - The original YouTube Music link.
+ * @returns The extracted metadata from the link.
+ */
+export function parseYouTubeMusicLink(youtubeLink: string): YouTubeMusicMetadata {
+  if (!youtubeLink.includes("music.youtube.com") && !youtubeLink.includes("youtube.com/watch")) {
+    throw new InvalidLinkError("Invalid YouTube Music link");
   }
 
+  let url: URL;
   try {
-    const url = new URL(spotifyLink);
-    const pathParts = url.pathname.split('/').filter(part => part.length > 0);
-    const type = pathParts[0] as 'track' | 'album' | 'artist';
-    const id = pathParts[1];
-    
-    return { type, id };
+    url = new URL(youtubeLink);
   } catch (error) {
-    throw new Error(`Failed to parse Spotify link: ${error}`);
+    throw new InvalidLinkError(`Failed to parse YouTube Music link: ${error}`);
+  }
+
+  const pathParts = url.pathname.split('/').filter(part => part.length > 0);
+
+  const videoId = url.searchParams.get('v');
+  if (pathParts[0] === 'watch' && videoId) {
+    return { type: 'track', id: videoId };
+  }
+
+  // Albums on YouTube Music are auto-generated playlists with an OLAK5uy_ prefix
+  const listId = url.searchParams.get('list');
+  if (pathParts[0] === 'playlist' && listId) {
+    if (!listId.startsWith('OLAK5uy_')) {
+      throw new InvalidLinkError('Unsupported content type: playlist');
+    }
+    return { type: 'album', id: listId };
+  }
+
+  if (pathParts[0] === 'channel' && pathParts[1]) {
+    return { type: 'artist', id: pathParts[1] };
   }
+
+  throw new InvalidLinkError(`Unsupported content type: ${pathParts[0]}`);
 }
 
 /**
- * Converts an Apple Music link to a Spotify link by extracting metadata
- * and searching for the corresponding content on Spotify.
+ * Parses a Deezer link to extract structured metadata.
  * 
- * @param appleMusicLink - The original Apple Music link.
- * @returns The extracted metadata that can be used for Spotify search.
+ * Example links:
+ * - Track: https://www.deezer.com/track/1234567890
+ * - Album: https://www.deezer.com/en/album/1234567890
+ * - Artist: https://www.deezer.com/artist/1234567890
+ * 
+ * Short deezer.page.link links are resolved to one of the above by the
+ * link resolution stage before parsing.
+ * 
+ * @param deezerLink - The original Deezer link.
+ * @returns The extracted metadata from the link.
  */
-export function convertAppleMusicLinkToSpotify(appleMusicLink: string): AppleMusicMetadata {
-  return parseAppleMusicLink(appleMusicLink);
+export function parseDeezerLink(deezerLink: string): DeezerMetadata {
+  if (!deezerLink.includes("deezer.com")) {
+    throw new InvalidLinkError("Invalid Deezer link");
+  }
+
+  let url: URL;
+  try {
+    url = new URL(deezerLink);
+  } catch (error) {
+    throw new InvalidLinkError(`Failed to parse Deezer link: ${error}`);
+  }
+
+  // Links may be prefixed with a language code, e.g. /en/track/123
+  const pathParts = url.pathname.split('/').filter(part => part.length > 0);
+  const typeIndex = pathParts.findIndex(part => ['track', 'album', 'artist', 'playlist'].includes(part));
+  if (typeIndex === -1) {
+    throw new InvalidLinkError(`Unsupported content type: ${pathParts[0]}`);
+  }
+
+  const type = pathParts[typeIndex];
+  const id = pathParts[typeIndex + 1];
+  if (type === 'playlist') {
+    throw new InvalidLinkError('Unsupported content type: playlist');
+  }
+  if (!id || !/^\d+$/.test(id)) {
+    throw new InvalidLinkError(`Invalid Deezer ${type} ID: ${id}`);
+  }
+
+  return { type: type as DeezerMetadata['type'], id };
 }
 
 /**
- * Converts a Spotify link to Apple Music metadata format.
+ * Parses a Tidal link to extract structured metadata.
+ * 
+ * Example links:
+ * - Track: https://tidal.com/browse/track/1234567890
+ * - Track: https://listen.tidal.com/album/1234567890/track/1234567891
+ * - Album: https://listen.tidal.com/album/1234567890
+ * - Artist: https://tidal.com/browse/artist/1234567890
  * 
- * @param spotifyLink - The original Spotify link.
- * @returns The converted metadata in Apple Music format.
+ * @param tidalLink - The original Tidal link.
+ * @returns The extracted metadata from the link.
  */
-export function convertSpotifyLinkToAppleMusic(spotifyLink: string): SpotifyMetadata {
-  const metadata = parseSpotifyLink(spotifyLink);
-  
-  // Validate the content type
-  if (!['track', 'album', 'artist'].includes(metadata.type)) {
-    throw new Error(`Unsupported content type: ${metadata.type}`);
-  }
-  
-  return metadata;
+export function parseTidalLink(tidalLink: string): TidalMetadata {
+  if (!tidalLink.includes("tidal.com")) {
+    throw new InvalidLinkError("Invalid Tidal link");
+  }
+
+  let url: URL;
+  try {
+    url = new URL(tidalLink);
+  } catch (error) {
+    throw new InvalidLinkError(`Failed to parse Tidal link: ${error}`);
+  }
+
+  const pathParts = url.pathname.split('/').filter(part => part.length > 0);
+  if (pathParts[0] === 'browse') {
+    pathParts.shift();
+  }
+
+  // Tracks opened from an album page keep the album in the path: /album/<id>/track/<id>
+  const trackIndex = pathParts.lastIndexOf('track');
+  const typeIndex = trackIndex !== -1 ? trackIndex : 0;
+
+  const type = pathParts[typeIndex];
+  const id = pathParts[typeIndex + 1];
+  if (!['track', 'album', 'artist'].includes(type)) {
+    throw new InvalidLinkError(`Unsupported content type: ${type}`);
+  }
+  if (!id || !/^\d+$/.test(id)) {
+    throw new InvalidLinkError(`Invalid Tidal ${type} ID: ${id}`);
+  }
+
+  return { type: type as TidalMetadata['type'], id };
 }
 
 /**
@@ -132,36 +318,17 @@ export function convertSpotifyLinkToAppleMusic(spotifyLink: string): SpotifyMeta
  * @returns Detailed metadata about the content.
  */
 export async function getSpotifyDetailedMetadata(spotifyData: SpotifyMetadata): Promise<DetailedMetadata> {
-  const clientId = process.env.SPOTIFY_CLIENT_ID;
-  const clientSecret = process.env.SPOTIFY_CLIENT_SECRET;
-
-  if (!clientId || !clientSecret) {
-    throw new Error('Spotify API credentials missing');
+  if (spotifyData.type === 'playlist') {
+    throw new NotSupportedError('Playlists must be converted with convertPlaylist');
   }
 
-  // Get access token
-  const tokenResponse = await axios.post('https://accounts.spotify.com/api/token',
-    new URLSearchParams({
-      grant_type: 'client_credentials'
-    }).toString(),
-    {
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Authorization': `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`
-      }
-    }
-  );
-
-  const accessToken = tokenResponse.data.access_token;
-
   // Get item details
-  const response = await axios.get(
-    `https://api.spotify.com/v1/${spotifyData.type}s/${spotifyData.id}`,
-    {
+  const response = await withSpotifyToken(accessToken =>
+    spotifyHttp.get(`https://api.spotify.com/v1/${spotifyData.type}s/${spotifyData.id}`, {
       headers: {
         'Authorization': `Bearer ${accessToken}`
       }
-    }
+    })
   );
 
   const item = response.data;
@@ -178,23 +345,71 @@ export async function getSpotifyDetailedMetadata(spotifyData: SpotifyMetadata):
     releaseDate: item.release_date,
     genres: item.genres,
     trackNumber: item.track_number,
-    totalTracks: item.album?.total_tracks,
+    // Albums carry their own track count; tracks report their album's
+    totalTracks: spotifyData.type === 'album' ? item.total_tracks : item.album?.total_tracks,
     discNumber: item.disc_number,
     duration: item.duration_ms,
     isrc: item.external_ids?.isrc,
+    upc: item.external_ids?.upc,
     previewUrl: item.preview_url,
+    explicit: item.explicit,
     popularity: item.popularity
   };
 
+  if (spotifyData.type === 'album') {
+    metadata.tracks = await getSpotifyAlbumTracks(item);
+    metadata.totalDiscs = metadata.tracks.reduce((discs, track) => Math.max(discs, track.discNumber || 1), 1);
+  }
+
   return metadata;
 }
 
 /**
- * Searches Apple Music content using the provided metadata.
- * 
- * @param metadata - The detailed metadata to search with.
- * @returns Matching Apple Music content with URL and metadata.
+ * Fetches the full track listing of a Spotify album, following the paginated
+ * `next` links. Album track objects carry no ISRC, so the full track objects
+ * are fetched in batches to fill those in.
  */
-export async function searchAppleMusicContent(metadata: DetailedMetadata): Promise<{ appleMusicUrl: string, metadata: DetailedMetadata }> {
-  return searchAppleMusic(metadata);
-} 
\ No newline at end of file
+async function getSpotifyAlbumTracks(album: any): Promise<DetailedMetadata[]> {
+  const albumTracks: any[] = [];
+  let page = album.tracks;
+
+  while (page) {
+    albumTracks.push(...(page.items || []));
+    if (!page.next) break;
+
+    const next = page.next;
+    const nextResponse = await withSpotifyToken(accessToken =>
+      spotifyHttp.get(next, { headers: { 'Authorization': `Bearer ${accessToken}` } })
+    );
+    page = nextResponse.data;
+  }
+
+  // The several-tracks endpoint accepts up to 50 IDs per request
+  const isrcs = new Map<string, string>();
+  for (let i = 0; i < albumTracks.length; i += 50) {
+    const ids = albumTracks.slice(i, i + 50).map(track => track.id).join(',');
+    const response = await withSpotifyToken(accessToken =>
+      spotifyHttp.get('https://api.spotify.com/v1/tracks', {
+        params: { ids },
+        headers: { 'Authorization': `Bearer ${accessToken}` }
+      })
+    );
+    for (const track of response.data.tracks || []) {
+      if (track?.external_ids?.isrc) {
+        isrcs.set(track.id, track.external_ids.isrc);
+      }
+    }
+  }
+
+  return albumTracks.map(track => ({
+    type: 'track',
+    title: track.name,
+    artist: track.artists?.map((a: any) => a.name).join(', '),
+    album: album.name,
+    trackNumber: track.track_number,
+    discNumber: track.disc_number,
+    duration: track.duration_ms,
+    explicit: track.explicit,
+    isrc: isrcs.get(track.id)
+  }));
+}
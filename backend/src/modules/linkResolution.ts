@@ -0,0 +1,220 @@
+import { getProviders } from './providers';
+import { AppError, toAppError } from './errors';
+import { createHttpClient, HttpClient } from './httpClient';
+
+// Maximum number of redirects followed for a single short link
+const MAX_REDIRECT_HOPS = 5;
+
+// Timeout for each redirect request, in milliseconds
+const REDIRECT_TIMEOUT = 5000;
+
+// Hosts that serve the same content as a provider's canonical host
+const HOST_ALIASES: Record<string, string> = {
+  'geo.music.apple.com': 'music.apple.com',
+  'itunes.apple.com': 'music.apple.com',
+  'embed.music.apple.com': 'music.apple.com'
+};
+
+// Share and tracking parameters that never identify content
+const TRACKING_PARAMS = [
+  'si', 'nd', 'context', 'app', 'ls', 'uo', 'at', 'ct', 'pt', 'mt',
+  'itsct', 'itscg', 'feature', 'fbclid', 'gclid'
+];
+
+// One client per short link host, so one service failing doesn't trip the
+// circuit for the others
+const shortLinkClients = new Map<string, HttpClient>();
+
+/**
+ * Thrown when a link cannot be resolved to a link on a supported service.
+ */
+export class LinkResolutionError extends AppError {
+  constructor(message: string) {
+    super(message, 'link_resolution_failed', 400);
+    this.name = 'LinkResolutionError';
+  }
+}
+
+/**
+ * Whether a hostname is the given host or one of its subdomains.
+ */
+function matchesHost(hostname: string, host: string): boolean {
+  return hostname === host || hostname.endsWith(`.${host}`);
+}
+
+/**
+ * Whether redirects may lead through or land on this hostname: any host a
+ * registered provider serves links or short links from, or a known alias.
+ */
+function isAllowedHost(hostname: string): boolean {
+  return Object.keys(HOST_ALIASES).some(host => matchesHost(hostname, host)) ||
+    getProviders().some(provider =>
+      [...provider.hosts, ...(provider.shortLinkHosts || [])].some(host => matchesHost(hostname, host))
+    );
+}
+
+/**
+ * Whether the hostname belongs to a short link service whose links must be
+ * followed to find the content they point to.
+ */
+function isShortLinkHost(hostname: string): boolean {
+  return getProviders().some(provider =>
+    (provider.shortLinkHosts || []).some(host => matchesHost(hostname, host))
+  );
+}
+
+/**
+ * Returns the HTTP client for a short link host, creating it on first use.
+ */
+function getShortLinkClient(hostname: string): HttpClient {
+  let client = shortLinkClients.get(hostname);
+  if (!client) {
+    client = createHttpClient(hostname);
+    shortLinkClients.set(hostname, client);
+  }
+  return client;
+}
+
+/**
+ * Whether the link is an app URI (e.g. spotify:track:<id>) rather than a web link.
+ */
+function isAppUri(link: string): boolean {
+  return /^[a-z][a-z0-9+-]*:(?!\/\/)/i.test(link);
+}
+
+/**
+ * Parses a link, assuming https when the scheme was left off.
+ */
+function toUrl(link: string): URL {
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(link) ? link : `https://${link}`;
+  try {
+    return new URL(withScheme);
+  } catch (error) {
+    throw new LinkResolutionError(`Invalid link: ${link}`);
+  }
+}
+
+/**
+ * Rewrites a link into the canonical form provider parsers expect: https,
+ * the provider's main host instead of an alias, and no fragment or tracking
+ * parameters.
+ *
+ * @param link - The link to canonicalize.
+ * @returns The canonical link.
+ */
+export function canonicalizeLink(link: string): string {
+  // App URIs such as spotify:track:<id> have no host to canonicalize
+  if (isAppUri(link.trim())) {
+    return link.trim();
+  }
+
+  const url = toUrl(link.trim());
+
+  url.protocol = 'https:';
+  url.hash = '';
+
+  const alias = Object.keys(HOST_ALIASES).find(host => url.hostname === host);
+  if (alias) {
+    url.hostname = HOST_ALIASES[alias];
+  }
+
+  if (url.hostname === 'music.apple.com') {
+    // Old iTunes links prefix IDs with "id", e.g. /us/album/name/id1234567890
+    url.pathname = url.pathname.replace(/\/id(\d+)(?=\/|$)/g, '/$1');
+
+    // geo links may leave out the storefront, which the parser needs
+    const [firstSegment] = url.pathname.split('/').filter(part => part.length > 0);
+    if (firstSegment && !/^[a-z]{2}$/i.test(firstSegment)) {
+      url.pathname = `/us${url.pathname}`;
+    }
+  }
+
+  for (const param of [...url.searchParams.keys()]) {
+    if (TRACKING_PARAMS.includes(param) || param.startsWith('utm_')) {
+      url.searchParams.delete(param);
+    }
+  }
+
+  return url.toString();
+}
+
+/**
+ * Finds the first link to a supported, non-short-link host in an HTML page.
+ * Some short link services answer with an interstitial page that redirects
+ * in JavaScript rather than with an HTTP redirect.
+ */
+function findLinkInPage(html: string): string | null {
+  const candidates = html.match(/https?:\/\/[^\s"'<>\\]+/g) || [];
+
+  for (const candidate of candidates) {
+    try {
+      const { hostname } = new URL(candidate);
+      if (isAllowedHost(hostname) && !isShortLinkHost(hostname)) {
+        return candidate;
+      }
+    } catch (error) {
+      // Not a usable URL, keep looking
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolves a link to the canonical link of the content it points to.
+ *
+ * Short links (e.g. `spotify.link`, `apple.co`) are followed one redirect at
+ * a time, up to a hop limit, and every hop must stay on a host belonging to
+ * a registered provider. The final link is then canonicalized.
+ *
+ * @param link - The link as submitted by the user.
+ * @returns The canonical link, ready for provider detection and parsing.
+ */
+export async function resolveLink(link: string): Promise<string> {
+  if (isAppUri(link.trim())) {
+    return canonicalizeLink(link);
+  }
+
+  let url = toUrl(link.trim());
+
+  for (let hop = 0; isShortLinkHost(url.hostname); hop++) {
+    if (hop >= MAX_REDIRECT_HOPS) {
+      throw new LinkResolutionError(`Too many redirects while resolving ${link}`);
+    }
+
+    let response;
+    try {
+      response = await getShortLinkClient(url.hostname).get(url.toString(), {
+        maxRedirects: 0,
+        timeout: REDIRECT_TIMEOUT,
+        responseType: 'text',
+        validateStatus: status => status < 400
+      });
+    } catch (error: any) {
+      console.error('Link resolution error:', {
+        message: error.message,
+        status: error.response?.status,
+        url: url.toString()
+      });
+      // A short link service that is down or rate limiting says nothing
+      // about the link itself
+      const appError = toAppError(error);
+      if (appError.status >= 500 || appError.code === 'upstream_rate_limited') throw appError;
+      throw new LinkResolutionError(`Failed to resolve ${link}`);
+    }
+
+    const location = response.status >= 300 && response.status < 400
+      ? response.headers.location
+      : findLinkInPage(String(response.data || ''));
+    if (!location) {
+      throw new LinkResolutionError(`${link} does not redirect to a supported service`);
+    }
+
+    url = new URL(location, url);
+    if (!isAllowedHost(url.hostname)) {
+      throw new LinkResolutionError(`${link} redirects to an unsupported host: ${url.hostname}`);
+    }
+  }
+
+  return canonicalizeLink(url.toString());
+}
@@ -0,0 +1,246 @@
+import { DetailedMetadata } from './metadataExtraction';
+import { calculateStringSimilarity } from './stringSimilarity';
+import { extractVersionTags, normalizeArtistName, normalizeText, splitArtists } from './textNormalization';
+
+// Durations within this are the same cut; services round them differently
+const DURATION_TOLERANCE_MS = 3000;
+
+// Durations this far apart are treated as entirely different cuts
+const DURATION_MISMATCH_MS = 30000;
+
+// Version keywords that mean a different recording rather than a reissue
+// of the same one ("Live" vs. "Remastered")
+const RECORDING_VERSION_TAGS = [
+  'live', 'acoustic', 'remix', 'mix', 'instrumental', 'demo', 'unplugged',
+  'karaoke', 'extended', 'edit', 'sped', 'slowed'
+];
+
+// Words in an artist name that suggest a tribute or cover act
+const TRIBUTE_INDICATORS = [
+  'tribute', 'covers', 'performs', 'plays', 'karaoke',
+  'in the style of', 'ukulele', 'instrumental', 'orchestra',
+  'string quartet', 'lullaby', 'piano version', 'jazz version'
+];
+
+// Score multiplier for each recording version only one side is tagged with
+const VERSION_MISMATCH_PENALTY = 0.7;
+
+// Score multiplier when one side is explicit and the other clean
+const EXPLICIT_MISMATCH_PENALTY = 0.9;
+
+// Score multiplier when the match is credited to a tribute or cover act
+const TRIBUTE_PENALTY = 0.3;
+
+/**
+ * How similar one field of the source and match are, and how much it counts
+ * towards the score.
+ */
+export interface ConfidenceFactor {
+  field: 'title' | 'artist' | 'album' | 'duration';
+  /** Similarity between 0 and 1 */
+  similarity: number;
+  /** Weight relative to the other factors that were compared */
+  weight: number;
+}
+
+/**
+ * A reason the score was scaled down.
+ */
+export interface ConfidencePenalty {
+  type: 'version' | 'explicit' | 'tribute' | 'trackList';
+  description: string;
+  /** Multiplier applied to the score, between 0 and 1 */
+  multiplier: number;
+}
+
+/**
+ * A confidence score together with how it was arrived at.
+ */
+export interface ConfidenceBreakdown {
+  /** The final score, 0-100 */
+  score: number;
+  /** The fields that were compared; fields missing on either side are left out */
+  factors: ConfidenceFactor[];
+  /** Set when a shared ISRC or UPC made the match exact, overriding the factors */
+  codeMatch?: 'isrc' | 'upc';
+  penalties: ConfidencePenalty[];
+}
+
+/**
+ * Scores how close two durations are, between 0 and 1: 1 within a few
+ * seconds, falling linearly to 0 at half a minute apart. Returns null when
+ * either duration is unknown.
+ */
+export function calculateDurationSimilarity(source?: number, match?: number): number | null {
+  if (!source || !match) return null;
+
+  const difference = Math.abs(source - match);
+  if (difference <= DURATION_TOLERANCE_MS) return 1;
+
+  return Math.max(0, 1 - (difference - DURATION_TOLERANCE_MS) / (DURATION_MISMATCH_MS - DURATION_TOLERANCE_MS));
+}
+
+/**
+ * Checks if an artist name appears to be a tribute/cover band
+ */
+export function isTributeBand(artistName: string, originalArtist: string): boolean {
+  const lowerArtist = normalizeText(artistName);
+  const lowerOriginal = normalizeText(originalArtist);
+
+  // Skip check if it's the exact original artist
+  if (lowerArtist === lowerOriginal) return false;
+
+  // Check if artist name contains the original artist name OR any tribute
+  // indicators the original doesn't have itself (an actual orchestra)
+  return (lowerArtist.includes(lowerOriginal) ||
+          TRIBUTE_INDICATORS.some(indicator => lowerArtist.includes(indicator) && !lowerOriginal.includes(indicator)));
+}
+
+/**
+ * Lists the ways a match looks like a different version of the source: a
+ * live, acoustic, remix or sped up version only one side's title is tagged
+ * with, or explicit matched with clean.
+ */
+function getVersionPenalties(
+  source: Pick<DetailedMetadata, 'title' | 'explicit'>,
+  match: Pick<DetailedMetadata, 'title' | 'explicit'>
+): ConfidencePenalty[] {
+  const sourceTags = extractVersionTags(source.title || '').filter(tag => RECORDING_VERSION_TAGS.includes(tag));
+  const matchTags = extractVersionTags(match.title || '').filter(tag => RECORDING_VERSION_TAGS.includes(tag));
+
+  const penalties: ConfidencePenalty[] = [
+    ...sourceTags.filter(tag => !matchTags.includes(tag)).map(tag => ({
+      type: 'version' as const,
+      description: `Source is tagged "${tag}" but the match isn't`,
+      multiplier: VERSION_MISMATCH_PENALTY
+    })),
+    ...matchTags.filter(tag => !sourceTags.includes(tag)).map(tag => ({
+      type: 'version' as const,
+      description: `Match is tagged "${tag}" but the source isn't`,
+      multiplier: VERSION_MISMATCH_PENALTY
+    }))
+  ];
+
+  if (source.explicit !== undefined && match.explicit !== undefined && source.explicit !== match.explicit) {
+    penalties.push({
+      type: 'explicit',
+      description: source.explicit ? 'Source is explicit but the match is clean' : 'Source is clean but the match is explicit',
+      multiplier: EXPLICIT_MISMATCH_PENALTY
+    });
+  }
+
+  return penalties;
+}
+
+/**
+ * Calculates a score multiplier (0-1) for matches that look like a different
+ * version of the source (see `getVersionPenalties`).
+ */
+export function calculateVersionPenalty(
+  source: Pick<DetailedMetadata, 'title' | 'explicit'>,
+  match: Pick<DetailedMetadata, 'title' | 'explicit'>
+): number {
+  return getVersionPenalties(source, match).reduce((penalty, { multiplier }) => penalty * multiplier, 1);
+}
+
+/**
+ * Calculates a confidence score (0-100) for how well the source matches the
+ * target content, along with the factors and penalties that produced it.
+ *
+ * Title, artist, album and duration similarity are averaged over whichever
+ * are known, then scaled down for matches that look like a different
+ * version or are credited to a tribute act. A shared ISRC or UPC makes the
+ * match exact.
+ */
+export function explainMatchConfidence(
+  source: DetailedMetadata,
+  match: DetailedMetadata
+): ConfidenceBreakdown {
+  const factors: ConfidenceFactor[] = [];
+
+  // Compare titles (weighted heavily)
+  if (source.title && match.title) {
+    factors.push({ field: 'title', similarity: calculateStringSimilarity(source.title, match.title), weight: 40 });
+  }
+
+  // Compare artists (weighted heavily)
+  if (source.artist && match.artist) {
+    // Compare normalized credits so separators and ordering don't matter
+    const artistSimilarity = calculateStringSimilarity(
+      normalizeArtistName(source.artist),
+      normalizeArtistName(match.artist)
+    );
+    factors.push({ field: 'artist', similarity: artistSimilarity, weight: 40 });
+  }
+
+  // Compare albums if available (less weight)
+  if (source.album && match.album) {
+    factors.push({ field: 'album', similarity: calculateStringSimilarity(source.album, match.album), weight: 20 });
+  }
+
+  // Compare durations if both are known, so a live cut or extended mix
+  // scores below the studio version
+  const durationSimilarity = calculateDurationSimilarity(source.duration, match.duration);
+  if (durationSimilarity !== null) {
+    factors.push({ field: 'duration', similarity: durationSimilarity, weight: 20 });
+  }
+
+  // If we have ISRC and they match, it's a perfect match
+  if (source.isrc && match.isrc && source.isrc === match.isrc) {
+    return { score: 100, factors, codeMatch: 'isrc', penalties: [] };
+  }
+
+  // Likewise for albums with matching UPC barcodes
+  if (source.upc && match.upc && normalizeUpc(source.upc) === normalizeUpc(match.upc)) {
+    return { score: 100, factors, codeMatch: 'upc', penalties: [] };
+  }
+
+  const penalties = getVersionPenalties(source, match);
+
+  const tributeArtist = source.artist && match.artist && source.type !== 'artist'
+    ? splitArtists(match.artist).find(name => isTributeBand(name, source.artist))
+    : undefined;
+  if (tributeArtist) {
+    penalties.push({
+      type: 'tribute',
+      description: `"${tributeArtist}" looks like a tribute or cover act`,
+      multiplier: TRIBUTE_PENALTY
+    });
+  }
+
+  // Normalize score based on available factors
+  const totalWeight = factors.reduce((total, factor) => total + factor.weight, 0);
+  if (totalWeight === 0) return { score: 0, factors, penalties };
+
+  const weighted = factors.reduce((total, factor) => total + factor.similarity * factor.weight, 0) / totalWeight;
+  const multiplier = penalties.reduce((total, penalty) => total * penalty.multiplier, 1);
+
+  return { score: Math.round(weighted * 100 * multiplier), factors, penalties };
+}
+
+/**
+ * Calculates a confidence score (0-100) for how well the source matches
+ * the target content. See `explainMatchConfidence` for how it's scored.
+ */
+export function calculateMatchConfidence(
+  source: DetailedMetadata,
+  match: DetailedMetadata
+): number {
+  return explainMatchConfidence(source, match).score;
+}
+
+/**
+ * Strips leading zeros so 12-digit UPC-A and 13-digit EAN barcodes compare equal
+ */
+export function normalizeUpc(upc: string): string {
+  return upc.replace(/^0+/, '');
+}
+
+/**
+ * Lists the 12-digit UPC-A and 13-digit EAN forms of a barcode, for services
+ * that look barcodes up by exact match
+ */
+export function getUpcForms(upc: string): string[] {
+  const normalized = normalizeUpc(upc);
+  return Array.from(new Set([normalized.padStart(12, '0'), normalized.padStart(13, '0')]));
+}
@@ -1,5 +1,6 @@
-import axios from 'axios';
 import { AppleMusicMetadata } from './linkConversion';
+import { createHttpClient } from './httpClient';
+import { AppError, ContentNotFoundError, NotSupportedError } from './errors';
 
 /**
  * Represents the detailed metadata associated with a music item.
@@ -17,11 +18,26 @@ export interface DetailedMetadata {
   discNumber?: number;
   totalDiscs?: number;
   isrc?: string;
+  upc?: string;
   duration?: number;
   popularity?: number;
   previewUrl?: string;
+  /** Whether the content is marked explicit, when the service says */
+  explicit?: boolean;
+  /** The album's track listing, for albums */
+  tracks?: DetailedMetadata[];
+  /** The artist's top albums, for artists */
+  topAlbums?: DetailedMetadata[];
 }
 
+// iTunes lookups return at most 200 related items
+const ALBUM_TRACK_LIMIT = 200;
+
+// Number of albums returned with an artist
+const ARTIST_TOP_ALBUMS_LIMIT = 10;
+
+const itunesHttp = createHttpClient('iTunes');
+
 /**
  * Safely gets artwork URL from iTunes API result and converts to high resolution
  */
@@ -39,59 +55,146 @@ function getArtworkUrl(result: any): string | undefined {
   return artworkUrl.replace(/\d+x\d+bb/, '600x600bb');
 }
 
+/**
+ * Maps an iTunes lookup track result to our metadata format
+ */
+function mapITunesTrack(result: any): DetailedMetadata {
+  return {
+    type: 'track',
+    title: result.trackName,
+    artist: result.artistName,
+    album: result.collectionName,
+    artworkUrl: getArtworkUrl(result),
+    releaseDate: result.releaseDate,
+    genres: result.primaryGenreName ? [result.primaryGenreName] : undefined,
+    trackNumber: result.trackNumber,
+    totalTracks: result.trackCount,
+    discNumber: result.discNumber,
+    totalDiscs: result.discCount,
+    isrc: result.isrc,
+    duration: result.trackTimeMillis,
+    previewUrl: result.previewUrl,
+    explicit: result.trackExplicitness ? result.trackExplicitness === 'explicit' : undefined,
+    popularity: 0 // Apple Music doesn't provide popularity metrics in the public API
+  };
+}
+
+/**
+ * Maps an iTunes lookup collection result to our metadata format
+ */
+function mapITunesCollection(result: any): DetailedMetadata {
+  return {
+    type: 'album',
+    title: result.collectionName,
+    artist: result.artistName,
+    artworkUrl: getArtworkUrl(result),
+    releaseDate: result.releaseDate,
+    genres: result.primaryGenreName ? [result.primaryGenreName] : undefined,
+    totalTracks: result.trackCount,
+    explicit: result.collectionExplicitness ? result.collectionExplicitness === 'explicit' : undefined,
+    popularity: 0
+  };
+}
+
+/**
+ * Looks up an ID with the iTunes lookup API, optionally including related
+ * entities (an album's songs, an artist's albums).
+ */
+async function lookup(id: string, region: string, entity?: string, limit?: number): Promise<any[]> {
+  const response = await itunesHttp.get(
+    `https://itunes.apple.com/lookup`, {
+      params: {
+        id,
+        entity,
+        country: region,
+        limit
+      }
+    }
+  );
+
+  return response.data.results || [];
+}
+
+/**
+ * Looks up a single track.
+ */
+async function lookupTrack(id: string, region: string): Promise<DetailedMetadata | null> {
+  const results = await lookup(id, region);
+  const track = results.find(result => result.wrapperType === 'track');
+  return track ? mapITunesTrack(track) : null;
+}
+
+/**
+ * Looks up an album together with its full track listing.
+ */
+async function lookupAlbum(id: string, region: string): Promise<DetailedMetadata | null> {
+  const results = await lookup(id, region, 'song', ALBUM_TRACK_LIMIT);
+  const collection = results.find(result => result.wrapperType === 'collection');
+  if (!collection) return null;
+
+  const tracks = results
+    .filter(result => result.wrapperType === 'track' && result.kind === 'song')
+    .map(mapITunesTrack)
+    .sort((a, b) => (a.discNumber || 1) - (b.discNumber || 1) || (a.trackNumber || 0) - (b.trackNumber || 0));
+
+  return {
+    ...mapITunesCollection(collection),
+    totalDiscs: tracks.reduce((discs, track) => Math.max(discs, track.totalDiscs || track.discNumber || 1), 1),
+    tracks
+  };
+}
+
+/**
+ * Looks up an artist together with their top albums.
+ */
+async function lookupArtist(id: string, region: string): Promise<DetailedMetadata | null> {
+  const results = await lookup(id, region, 'album', ARTIST_TOP_ALBUMS_LIMIT);
+  const artist = results.find(result => result.wrapperType === 'artist');
+  if (!artist) return null;
+
+  const topAlbums = results
+    .filter(result => result.wrapperType === 'collection')
+    .map(mapITunesCollection);
+
+  return {
+    type: 'artist',
+    title: artist.artistName,
+    artist: artist.artistName,
+    // Artist records carry no image, so fall back to their top album's artwork
+    artworkUrl: topAlbums[0]?.artworkUrl,
+    genres: artist.primaryGenreName ? [artist.primaryGenreName] : undefined,
+    popularity: 0,
+    topAlbums
+  };
+}
+
 /**
  * Extracts metadata from an Apple Music link using their public metadata API.
  * This API doesn't require authentication for basic metadata.
  * 
+ * Albums include their full track listing and artists their top albums.
+ * 
  * @param appleMusicMetadata - The parsed Apple Music metadata
  * @returns A Promise that resolves to a DetailedMetadata object.
  */
-export async function extractMetadata(appleMusicMetadata: AppleMusicMetadata): Promise<DetailedMetadata> {
+export async function extractMetadata(appleMusicMetadata: Omit<AppleMusicMetadata, 'path'>): Promise<DetailedMetadata> {
   const { type, id, region } = appleMusicMetadata;
+
+  if (type === 'playlist') {
+    throw new NotSupportedError('Playlists must be converted with convertPlaylist');
+  }
   
   try {
-    // For tracks, we need to use the track ID (i parameter) instead of the album ID
-    const searchId = type === 'track' ? id : id;
-    
-    const response = await axios.get(
-      `https://itunes.apple.com/lookup`, {
-        params: {
-          id: searchId,
-          entity: 'song',
-          country: region,
-          limit: 1
-        }
-      }
-    );
+    const metadata = type === 'track' ? await lookupTrack(id, region) :
+                     type === 'album' ? await lookupAlbum(id, region) :
+                     await lookupArtist(id, region);
 
-    if (!response.data.results || response.data.results.length === 0) {
-      throw new Error('No metadata found for the provided Apple Music link');
+    if (!metadata) {
+      throw new ContentNotFoundError('No metadata found for the provided Apple Music link');
     }
 
-    const result = response.data.results[0];
-    
-    // Map the iTunes API response to our metadata format
-    const metadata: DetailedMetadata = {
-      type,
-      title: result.trackName || result.collectionName || result.artistName,
-      artist: result.artistName,
-      album: result.collectionName,
-      artworkUrl: getArtworkUrl(result),
-      releaseDate: result.releaseDate,
-      genres: result.primaryGenreName ? [result.primaryGenreName] : undefined,
-      trackNumber: result.trackNumber,
-      totalTracks: result.trackCount,
-      discNumber: result.discNumber,
-      totalDiscs: result.discCount,
-      isrc: result.isrc,
-      duration: result.trackTimeMillis,
-      previewUrl: result.previewUrl,
-      popularity: 0 // Apple Music doesn't provide popularity metrics in the public API
-    };
-
-    // Log the response and metadata for debugging
-    console.log('iTunes API Response:', JSON.stringify(result, null, 2));
-    console.log('Extracted Metadata:', JSON.stringify(metadata, null, 2));
+    // Log the metadata for debugging
+    console.log('Extracted Metadata:', JSON.stringify({ ...metadata, tracks: metadata.tracks?.length }, null, 2));
 
     return metadata;
   } catch (error: any) {
@@ -102,6 +205,8 @@ export async function extractMetadata(appleMusicMetadata: AppleMusicMetadata): P
       status: error.response?.status,
       metadata: appleMusicMetadata
     });
+    // Keep classifiable failures (missing content, upstream errors) intact
+    if (error instanceof AppError || error.isAxiosError) throw error;
     throw new Error(`Failed to fetch metadata from Apple Music: ${error.message}`);
   }
-} 
\ No newline at end of file
+}
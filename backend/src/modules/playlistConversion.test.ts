@@ -0,0 +1,69 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { convertPlaylist, getSpotifyPlaylist } from './playlistConversion';
+import { spotifyHttp } from './spotifyApi';
+import { MusicProvider } from './providers/types';
+
+jest.mock('./spotifyApi', () => ({
+  spotifyHttp: { get: jest.fn() },
+  withSpotifyToken: (request: (token: string) => Promise<unknown>) => request('token')
+}));
+
+jest.mock('./appleMusicApi', () => ({}));
+
+jest.mock('./cache', () => ({
+  searchCached: async (_target: unknown, source: { title: string }) => ({
+    value: { url: `https://example.com/${source.title}`, metadata: source },
+    hit: false
+  })
+}));
+
+const getMock = spotifyHttp.get as jest.MockedFunction<typeof spotifyHttp.get>;
+
+function spotifyTrack(name: string) {
+  return { track: { type: 'track', name, artists: [{ name: 'Artist' }], duration_ms: 200000 } };
+}
+
+describe('getSpotifyPlaylist', () => {
+  it('skips local files and episodes without reporting the playlist as truncated', async () => {
+    getMock.mockResolvedValueOnce({
+      data: {
+        name: 'Mix',
+        tracks: {
+          total: 3,
+          items: [
+            spotifyTrack('Song'),
+            { track: { type: 'track', name: 'Home Recording', is_local: true } },
+            { track: { type: 'episode', name: 'Podcast' } }
+          ],
+          next: null
+        }
+      }
+    } as any);
+
+    const fetched = await getSpotifyPlaylist('playlist', 'us');
+    expect(fetched.tracks.map(track => track.title)).toEqual(['Song']);
+    expect(fetched.playlist.totalTracks).toBe(3);
+    expect(fetched.truncated).toBe(false);
+
+    const { summary } = await convertPlaylist(fetched, {} as MusicProvider);
+    expect(summary.processedTracks).toBe(1);
+    expect(summary.truncated).toBe(false);
+  });
+
+  it('reports the playlist as truncated when it stops paging at the track limit', async () => {
+    getMock.mockResolvedValueOnce({
+      data: {
+        name: 'Everything',
+        tracks: {
+          total: 1000,
+          items: Array.from({ length: 500 }, (_, index) => spotifyTrack(`Song ${index}`)),
+          next: 'https://api.spotify.com/v1/playlists/playlist/tracks?offset=500'
+        }
+      }
+    } as any);
+
+    const fetched = await getSpotifyPlaylist('playlist', 'us');
+    expect(fetched.tracks).toHaveLength(500);
+    expect(fetched.truncated).toBe(true);
+  });
+});
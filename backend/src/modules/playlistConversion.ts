@@ -0,0 +1,270 @@
+import { DetailedMetadata } from './metadataExtraction';
+import { spotifyHttp, withSpotifyToken } from './spotifyApi';
+import { AppleMusicTrack, appleMusicHttp, getAppleMusicHeaders, mapAppleMusicResponse, withAppleMusicToken } from './appleMusicApi';
+import { calculateMatchConfidence } from './matchConfidence';
+import { mapWithConcurrency } from './concurrency';
+import { MusicProvider } from './providers/types';
+import { searchCached } from './cache';
+import { ContentNotFoundError } from './errors';
+
+// How many target-platform searches may run at the same time
+const PLAYLIST_CONCURRENCY = parseInt(process.env.PLAYLIST_CONCURRENCY || '4', 10);
+
+// Upper bound on tracks processed per playlist so huge playlists don't exhaust API quota
+const PLAYLIST_MAX_TRACKS = parseInt(process.env.PLAYLIST_MAX_TRACKS || '500', 10);
+
+// Matches below this confidence are flagged in the summary for manual review
+const LOW_CONFIDENCE_THRESHOLD = 60;
+
+/**
+ * Represents the descriptive metadata of a playlist.
+ */
+export interface PlaylistMetadata {
+  title: string;
+  owner?: string;
+  description?: string;
+  artworkUrl?: string;
+  totalTracks: number;
+}
+
+/**
+ * A playlist together with the tracks that were fetched from it.
+ */
+export interface FetchedPlaylist {
+  playlist: PlaylistMetadata;
+  tracks: DetailedMetadata[];
+  /** Whether tracks were left unread because the playlist is longer than PLAYLIST_MAX_TRACKS */
+  truncated: boolean;
+}
+
+/**
+ * The conversion outcome for a single playlist track.
+ */
+export interface PlaylistTrackResult {
+  position: number;
+  source: DetailedMetadata;
+  status: 'matched' | 'unmatched';
+  url?: string;
+  metadata?: DetailedMetadata;
+  confidence: number;
+  /** Whether the match was served from the cache */
+  cached?: boolean;
+  error?: string;
+}
+
+/**
+ * Aggregate statistics for a playlist conversion.
+ */
+export interface PlaylistConversionSummary {
+  totalTracks: number;
+  processedTracks: number;
+  matched: number;
+  unmatched: number;
+  lowConfidence: number;
+  averageConfidence: number;
+  truncated: boolean;
+}
+
+/**
+ * The full per-track report for a playlist conversion.
+ */
+export interface PlaylistConversionResult {
+  playlist: PlaylistMetadata;
+  tracks: PlaylistTrackResult[];
+  unmatched: DetailedMetadata[];
+  summary: PlaylistConversionSummary;
+}
+
+/**
+ * Fetches a Spotify playlist and all of its tracks, following the
+ * paginated `next` links until every page has been read.
+ *
+ * Local files and podcast episodes are skipped since they cannot be
+ * matched on another platform. Tracks are relinked to versions playable in
+ * the given market.
+ */
+export async function getSpotifyPlaylist(playlistId: string, market: string): Promise<FetchedPlaylist> {
+  const response = await withSpotifyToken(accessToken =>
+    spotifyHttp.get(`https://api.spotify.com/v1/playlists/${playlistId}`, {
+      params: { market: market.toUpperCase() },
+      headers: { 'Authorization': `Bearer ${accessToken}` }
+    })
+  );
+
+  const item = response.data;
+  const tracks: DetailedMetadata[] = [];
+  let page = item.tracks;
+  let truncated = false;
+
+  while (page) {
+    for (const entry of page.items || []) {
+      const track = entry.track;
+      if (!track || track.is_local || track.type !== 'track') continue;
+
+      tracks.push({
+        type: 'track',
+        title: track.name,
+        artist: track.artists?.map((a: any) => a.name).join(', '),
+        album: track.album?.name,
+        artworkUrl: track.album?.images?.[0]?.url,
+        releaseDate: track.album?.release_date,
+        trackNumber: track.track_number,
+        totalTracks: track.album?.total_tracks,
+        discNumber: track.disc_number,
+        duration: track.duration_ms,
+        isrc: track.external_ids?.isrc,
+        previewUrl: track.preview_url,
+        popularity: track.popularity
+      });
+    }
+
+    if (!page.next) break;
+    if (tracks.length >= PLAYLIST_MAX_TRACKS) {
+      truncated = true;
+      break;
+    }
+
+    const next = page.next;
+    const nextResponse = await withSpotifyToken(accessToken =>
+      spotifyHttp.get(next, { headers: { 'Authorization': `Bearer ${accessToken}` } })
+    );
+    page = nextResponse.data;
+  }
+
+  return {
+    playlist: {
+      title: item.name,
+      owner: item.owner?.display_name,
+      description: item.description || undefined,
+      artworkUrl: item.images?.[0]?.url,
+      totalTracks: item.tracks?.total ?? tracks.length
+    },
+    tracks,
+    // The total also counts the skipped local files and episodes, so it
+    // can't tell whether tracks were left out
+    truncated: truncated || tracks.length > PLAYLIST_MAX_TRACKS
+  };
+}
+
+/**
+ * Fetches an Apple Music catalog playlist and all of its tracks, following
+ * the paginated `next` links of the tracks relationship.
+ */
+export async function getAppleMusicPlaylist(playlistId: string, storefront: string): Promise<FetchedPlaylist> {
+  const response = await withAppleMusicToken(token =>
+    appleMusicHttp.get(`https://api.music.apple.com/v1/catalog/${storefront}/playlists/${playlistId}`, {
+      headers: getAppleMusicHeaders(token)
+    })
+  );
+
+  const item = response.data.data?.[0];
+  if (!item) {
+    throw new ContentNotFoundError('No playlist found for the provided Apple Music link');
+  }
+
+  const tracks: DetailedMetadata[] = [];
+  let page = item.relationships?.tracks;
+  let truncated = false;
+
+  while (page) {
+    for (const track of (page.data || []) as AppleMusicTrack[]) {
+      // Playlists can also contain music videos, which have no counterpart on other services
+      if (track.type !== 'songs') continue;
+      tracks.push(mapAppleMusicResponse(track));
+    }
+
+    if (!page.next) break;
+    if (tracks.length >= PLAYLIST_MAX_TRACKS) {
+      truncated = true;
+      break;
+    }
+
+    const next = page.next;
+    const nextResponse = await withAppleMusicToken(token =>
+      appleMusicHttp.get(`https://api.music.apple.com${next}`, { headers: getAppleMusicHeaders(token) })
+    );
+    page = nextResponse.data;
+  }
+
+  return {
+    playlist: {
+      title: item.attributes?.name,
+      owner: item.attributes?.curatorName,
+      description: item.attributes?.description?.standard,
+      artworkUrl: item.attributes?.artwork?.url?.replace('{w}x{h}', '600x600'),
+      totalTracks: item.relationships?.tracks?.meta?.total ?? tracks.length
+    },
+    tracks,
+    truncated: truncated || tracks.length > PLAYLIST_MAX_TRACKS
+  };
+}
+
+/**
+ * Converts a playlist by matching every track against the target provider
+ * with bounded concurrency, and builds the per-track report.
+ *
+ * @param fetched - The source playlist and its tracks.
+ * @param target - The provider to search for each track.
+ * @param region - The storefront or market to search in, if any.
+ * @returns The per-track conversion report.
+ */
+export async function convertPlaylist(
+  fetched: FetchedPlaylist,
+  target: MusicProvider,
+  region?: string
+): Promise<PlaylistConversionResult> {
+  const sourceTracks = fetched.tracks.slice(0, PLAYLIST_MAX_TRACKS);
+
+  const tracks = await mapWithConcurrency(sourceTracks, PLAYLIST_CONCURRENCY, async (source, index) => {
+    const position = index + 1;
+    try {
+      const { value: match, hit } = await searchCached(target, source, region);
+      return {
+        position,
+        source,
+        status: 'matched' as const,
+        url: match.url,
+        metadata: match.metadata,
+        confidence: calculateMatchConfidence(source, match.metadata),
+        cached: hit
+      };
+    } catch (error: any) {
+      // A single failed track shouldn't fail the whole playlist
+      console.error('Playlist track conversion error:', {
+        position,
+        title: source.title,
+        artist: source.artist,
+        error: error.message
+      });
+      return {
+        position,
+        source,
+        status: 'unmatched' as const,
+        confidence: 0,
+        error: error.message
+      };
+    }
+  });
+
+  const matchedTracks = tracks.filter(track => track.status === 'matched');
+  const totalConfidence = matchedTracks.reduce((sum, track) => sum + track.confidence, 0);
+
+  return {
+    playlist: fetched.playlist,
+    tracks,
+    unmatched: tracks
+      .filter(track => track.status === 'unmatched')
+      .map(track => track.source),
+    summary: {
+      totalTracks: fetched.playlist.totalTracks,
+      processedTracks: tracks.length,
+      matched: matchedTracks.length,
+      unmatched: tracks.length - matchedTracks.length,
+      lowConfidence: matchedTracks.filter(track => track.confidence < LOW_CONFIDENCE_THRESHOLD).length,
+      averageConfidence: matchedTracks.length > 0
+        ? Math.round(totalConfidence / matchedTracks.length)
+        : 0,
+      truncated: fetched.truncated
+    }
+  };
+}
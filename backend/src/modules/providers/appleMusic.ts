@@ -0,0 +1,63 @@
+import { parseAppleMusicLink } from '../linkConversion';
+import { extractMetadata } from '../metadataExtraction';
+import { isAvailableInStorefront, searchAppleMusicContent } from '../appleMusicApi';
+import { getAppleMusicPlaylist } from '../playlistConversion';
+import { AVAILABILITY_CONCURRENCY, AvailabilityNotSupportedError } from '../availability';
+import { mapWithConcurrency } from '../concurrency';
+import { NotSupportedError } from '../errors';
+import { MusicProvider } from './types';
+
+/**
+ * Apple Music, backed by the iTunes lookup API for metadata and the
+ * Apple Music catalog API for search.
+ */
+export const appleMusicProvider: MusicProvider = {
+  id: 'apple-music',
+  name: 'Apple Music',
+  hosts: ['music.apple.com', 'itunes.apple.com'],
+  shortLinkHosts: ['apple.co'],
+
+  detectLink(link) {
+    return link.includes('music.apple.com');
+  },
+
+  parseLink(link) {
+    const { type, id, region } = parseAppleMusicLink(link);
+    return { provider: 'apple-music', type, id, region };
+  },
+
+  async getMetadata(parsed) {
+    if (parsed.type === 'playlist') {
+      throw new NotSupportedError('Playlists must be converted with convertPlaylist');
+    }
+    return extractMetadata({ type: parsed.type, id: parsed.id, region: parsed.region || 'us' });
+  },
+
+  async search(metadata, region) {
+    const result = await searchAppleMusicContent(metadata, region);
+    return { url: result.appleMusicUrl, metadata: result.metadata, alternatives: result.alternatives };
+  },
+
+  buildUrl(type, id, region = 'us') {
+    // Apple Music links resolve without the name slug, and tracks live under /song
+    const path = type === 'track' ? 'song' : type;
+    return `https://music.apple.com/${region}/${path}/${id}`;
+  },
+
+  getPlaylist(parsed, region) {
+    return getAppleMusicPlaylist(parsed.id, region || parsed.region || 'us');
+  },
+
+  async getAvailability(parsed, regions) {
+    if (parsed.type === 'playlist') {
+      throw new AvailabilityNotSupportedError('Apple Music doesn\'t report availability for playlists');
+    }
+    const type = parsed.type;
+
+    // One catalog lookup per storefront, a few at a time
+    const available = await mapWithConcurrency(regions, AVAILABILITY_CONCURRENCY, region =>
+      isAvailableInStorefront(type, parsed.id, region)
+    );
+    return regions.filter((_, index) => available[index]);
+  }
+};
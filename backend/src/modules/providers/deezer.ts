@@ -0,0 +1,42 @@
+import { parseDeezerLink } from '../linkConversion';
+import { buildDeezerUrl, getDeezerDetailedMetadata, searchDeezerContent } from '../deezerApi';
+import { MusicProvider } from './types';
+import { NotSupportedError } from '../errors';
+
+/**
+ * Deezer, backed by Deezer's public (keyless) API.
+ */
+export const deezerProvider: MusicProvider = {
+  id: 'deezer',
+  name: 'Deezer',
+  hosts: ['deezer.com'],
+  shortLinkHosts: ['deezer.page.link', 'link.deezer.com'],
+
+  detectLink(link) {
+    return link.includes('deezer.com/');
+  },
+
+  parseLink(link) {
+    const { type, id } = parseDeezerLink(link);
+    return { provider: 'deezer', type, id };
+  },
+
+  async getMetadata(parsed) {
+    if (parsed.type === 'playlist') {
+      throw new NotSupportedError('Playlists are not supported on Deezer');
+    }
+    return getDeezerDetailedMetadata({ type: parsed.type, id: parsed.id });
+  },
+
+  async search(metadata) {
+    const result = await searchDeezerContent(metadata);
+    return { url: result.deezerUrl, metadata: result.metadata, alternatives: result.alternatives };
+  },
+
+  buildUrl(type, id) {
+    if (type === 'playlist') {
+      return `https://www.deezer.com/playlist/${id}`;
+    }
+    return buildDeezerUrl(type, id);
+  }
+};
@@ -0,0 +1,18 @@
+import { registerProvider } from './registry';
+import { spotifyProvider } from './spotify';
+import { appleMusicProvider } from './appleMusic';
+import { youtubeMusicProvider } from './youtubeMusic';
+import { deezerProvider } from './deezer';
+import { tidalProvider } from './tidal';
+
+// Registration order decides the default target: the first provider that
+// isn't the source, so Spotify links go to Apple Music and everything else
+// goes to Spotify.
+registerProvider(spotifyProvider);
+registerProvider(appleMusicProvider);
+registerProvider(youtubeMusicProvider);
+registerProvider(deezerProvider);
+registerProvider(tidalProvider);
+
+export * from './types';
+export * from './registry';
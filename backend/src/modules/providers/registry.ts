@@ -0,0 +1,43 @@
+import { MusicProvider } from './types';
+
+// Registered providers, kept in registration order
+const providers = new Map<string, MusicProvider>();
+
+/**
+ * Registers a provider so links can be converted from and to it.
+ */
+export function registerProvider(provider: MusicProvider): void {
+  if (providers.has(provider.id)) {
+    throw new Error(`Provider already registered: ${provider.id}`);
+  }
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Returns the provider with the given ID, if one is registered.
+ */
+export function getProvider(id: string): MusicProvider | undefined {
+  return providers.get(id);
+}
+
+/**
+ * Returns every registered provider in registration order.
+ */
+export function getProviders(): MusicProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * Finds the provider a link belongs to.
+ */
+export function findProviderForLink(link: string): MusicProvider | undefined {
+  return getProviders().find(provider => provider.detectLink(link));
+}
+
+/**
+ * Picks the target used when a request doesn't specify one: the first
+ * registered provider that isn't the source.
+ */
+export function getDefaultTarget(source: MusicProvider): MusicProvider | undefined {
+  return getProviders().find(provider => provider.id !== source.id);
+}
@@ -0,0 +1,53 @@
+import { getSpotifyDetailedMetadata, parseSpotifyLink } from '../linkConversion';
+import { getSpotifyAvailableMarkets, searchSpotifyContent } from '../spotifyApi';
+import { getSpotifyPlaylist } from '../playlistConversion';
+import { AvailabilityNotSupportedError } from '../availability';
+import { NotSupportedError } from '../errors';
+import { MusicProvider } from './types';
+
+/**
+ * Spotify, backed by the Spotify Web API.
+ */
+export const spotifyProvider: MusicProvider = {
+  id: 'spotify',
+  name: 'Spotify',
+  hosts: ['open.spotify.com', 'play.spotify.com'],
+  shortLinkHosts: ['spotify.link', 'spotify.app.link'],
+
+  detectLink(link) {
+    return link.includes('open.spotify.com') || link.includes('play.spotify.com') || link.startsWith('spotify:');
+  },
+
+  parseLink(link) {
+    const { type, id } = parseSpotifyLink(link);
+    return { provider: 'spotify', type, id };
+  },
+
+  async getMetadata(parsed) {
+    if (parsed.type === 'playlist') {
+      throw new NotSupportedError('Playlists must be converted with convertPlaylist');
+    }
+    return getSpotifyDetailedMetadata({ type: parsed.type, id: parsed.id });
+  },
+
+  async search(metadata, region) {
+    const result = await searchSpotifyContent(metadata, region);
+    return { url: result.spotifyUrl, metadata: result.metadata, alternatives: result.alternatives };
+  },
+
+  buildUrl(type, id) {
+    return `https://open.spotify.com/${type}/${id}`;
+  },
+
+  getPlaylist(parsed, region) {
+    return getSpotifyPlaylist(parsed.id, region || 'us');
+  },
+
+  async getAvailability(parsed, regions) {
+    if (parsed.type !== 'track' && parsed.type !== 'album') {
+      throw new AvailabilityNotSupportedError('Spotify only reports availability for tracks and albums');
+    }
+    const markets = await getSpotifyAvailableMarkets(parsed.type, parsed.id);
+    return regions.filter(region => markets.includes(region));
+  }
+};
@@ -0,0 +1,41 @@
+import { parseTidalLink } from '../linkConversion';
+import { buildTidalUrl, getTidalDetailedMetadata, searchTidalContent } from '../tidalApi';
+import { MusicProvider } from './types';
+import { NotSupportedError } from '../errors';
+
+/**
+ * Tidal, backed by the Tidal catalog API.
+ */
+export const tidalProvider: MusicProvider = {
+  id: 'tidal',
+  name: 'Tidal',
+  hosts: ['tidal.com', 'listen.tidal.com'],
+
+  detectLink(link) {
+    return link.includes('tidal.com/');
+  },
+
+  parseLink(link) {
+    const { type, id } = parseTidalLink(link);
+    return { provider: 'tidal', type, id };
+  },
+
+  async getMetadata(parsed) {
+    if (parsed.type === 'playlist') {
+      throw new NotSupportedError('Playlists are not supported on Tidal');
+    }
+    return getTidalDetailedMetadata({ type: parsed.type, id: parsed.id });
+  },
+
+  async search(metadata, region) {
+    const result = await searchTidalContent(metadata, region);
+    return { url: result.tidalUrl, metadata: result.metadata, alternatives: result.alternatives };
+  },
+
+  buildUrl(type, id) {
+    if (type === 'playlist') {
+      return `https://tidal.com/browse/playlist/${id}`;
+    }
+    return buildTidalUrl(type, id);
+  }
+};
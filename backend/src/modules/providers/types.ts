@@ -0,0 +1,70 @@
+import { DetailedMetadata } from '../metadataExtraction';
+import { FetchedPlaylist } from '../playlistConversion';
+import { SearchCandidate } from '../searchAlternatives';
+
+/**
+ * The kinds of content a link can point to.
+ */
+export type LinkContentType = DetailedMetadata['type'] | 'playlist';
+
+/**
+ * A link parsed into the provider-independent pieces needed to look it up.
+ */
+export interface ParsedLink {
+  provider: string;
+  type: LinkContentType;
+  id: string;
+  region?: string;
+}
+
+/**
+ * The best match a provider found for some source metadata.
+ */
+export interface ProviderSearchResult {
+  url: string;
+  metadata: DetailedMetadata;
+  /** Other results the search considered, unranked */
+  alternatives?: SearchCandidate[];
+}
+
+/**
+ * A music streaming service that links can be converted from and to.
+ *
+ * Providers are registered with the registry in `./registry` and resolved
+ * generically by `/convert`, so adding a service only requires implementing
+ * this interface and registering it.
+ */
+export interface MusicProvider {
+  /** Stable identifier used in requests and responses (e.g. `spotify`). */
+  id: string;
+  /** Human-readable service name. */
+  name: string;
+  /** Hostnames this provider's links live on, used for link detection. */
+  hosts: string[];
+  /** Short link hostnames that redirect to this provider, followed before parsing. */
+  shortLinkHosts?: string[];
+  /** Whether the link belongs to this provider. */
+  detectLink(link: string): boolean;
+  /** Parses a link into its content type and ID. Throws for malformed links. */
+  parseLink(link: string): ParsedLink;
+  /** Fetches detailed metadata for a parsed (non-playlist) link. */
+  getMetadata(parsed: ParsedLink): Promise<DetailedMetadata>;
+  /**
+   * Searches the service for content matching the source metadata, limited
+   * to content playable in the given region (two-letter storefront or market
+   * code) on services that have regional catalogs.
+   */
+  search(metadata: DetailedMetadata, region?: string): Promise<ProviderSearchResult>;
+  /** Builds a canonical link to content on this service. */
+  buildUrl(type: LinkContentType, id: string, region?: string): string;
+  /**
+   * Fetches a playlist and its tracks, for providers that support playlists,
+   * as listed in the given region on services that have regional catalogs.
+   */
+  getPlaylist?(parsed: ParsedLink, region?: string): Promise<FetchedPlaylist>;
+  /**
+   * Lists which of the given regions (two-letter codes) the content plays
+   * in, for providers with regional catalogs.
+   */
+  getAvailability?(parsed: ParsedLink, regions: string[]): Promise<string[]>;
+}
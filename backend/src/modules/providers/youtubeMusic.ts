@@ -0,0 +1,45 @@
+import { parseYouTubeMusicLink } from '../linkConversion';
+import {
+  buildYouTubeMusicUrl,
+  getYouTubeMusicDetailedMetadata,
+  searchYouTubeMusicContent
+} from '../youtubeMusicApi';
+import { MusicProvider } from './types';
+import { NotSupportedError } from '../errors';
+
+/**
+ * YouTube Music, backed by the YouTube Data API.
+ */
+export const youtubeMusicProvider: MusicProvider = {
+  id: 'youtube-music',
+  name: 'YouTube Music',
+  hosts: ['music.youtube.com', 'www.youtube.com', 'youtube.com', 'm.youtube.com'],
+
+  detectLink(link) {
+    return link.includes('music.youtube.com') || link.includes('youtube.com/watch');
+  },
+
+  parseLink(link) {
+    const { type, id } = parseYouTubeMusicLink(link);
+    return { provider: 'youtube-music', type, id };
+  },
+
+  async getMetadata(parsed) {
+    if (parsed.type === 'playlist') {
+      throw new NotSupportedError('Playlists are not supported on YouTube Music');
+    }
+    return getYouTubeMusicDetailedMetadata({ type: parsed.type, id: parsed.id });
+  },
+
+  async search(metadata) {
+    const result = await searchYouTubeMusicContent(metadata);
+    return { url: result.youtubeMusicUrl, metadata: result.metadata, alternatives: result.alternatives };
+  },
+
+  buildUrl(type, id) {
+    if (type === 'playlist') {
+      return `https://music.youtube.com/playlist?list=${id}`;
+    }
+    return buildYouTubeMusicUrl(type, id);
+  }
+};
@@ -0,0 +1,35 @@
+import { DetailedMetadata } from './metadataExtraction';
+
+/**
+ * A search result that was considered but not chosen as the best match.
+ */
+export interface SearchCandidate {
+  url: string;
+  metadata: DetailedMetadata;
+}
+
+/**
+ * Every distinct result a search scored, keyed by URL. Searches run several
+ * queries that often return the same content, so later duplicates are ignored.
+ */
+export type SearchCandidates = Map<string, DetailedMetadata>;
+
+/**
+ * Records a scored search result as a candidate, keeping the first
+ * metadata seen for each URL.
+ */
+export function addCandidate(candidates: SearchCandidates, url: string, metadata: DetailedMetadata): void {
+  if (!candidates.has(url)) {
+    candidates.set(url, metadata);
+  }
+}
+
+/**
+ * Lists the candidates other than the chosen match, in the order they were
+ * found. Ranking is left to the caller, which scores them all the same way.
+ */
+export function getAlternatives(candidates: SearchCandidates, chosenUrl: string): SearchCandidate[] {
+  return [...candidates]
+    .filter(([url]) => url !== chosenUrl)
+    .map(([url, metadata]) => ({ url, metadata }));
+}
@@ -0,0 +1,39 @@
+import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
+
+// Initialize the Secret Manager client
+const secretManagerClient = new SecretManagerServiceClient();
+
+// Secrets are only read in production, which runs in this project
+const SECRETS_PROJECT_ID = 'convert-jakoblangtry-com';
+
+/**
+ * Retrieves secrets from Google Cloud Secret Manager in production,
+ * or returns undefined to fallback to environment variables in development.
+ *
+ * @param secretName Name of the secret to retrieve (e.g. spotify-client-id)
+ * @returns The secret value or undefined if in development
+ */
+export async function getSecret(secretName: string): Promise<string | undefined> {
+  // In development, return undefined to use environment variables
+  if (process.env.NODE_ENV !== 'production') {
+    return undefined;
+  }
+
+  try {
+    // Access the secret version
+    const [version] = await secretManagerClient.accessSecretVersion({
+      name: `projects/${SECRETS_PROJECT_ID}/secrets/${secretName}/versions/latest`,
+    });
+
+    // Extract the secret payload
+    const secretValue = version.payload?.data?.toString();
+    if (!secretValue) {
+      throw new Error(`Secret ${secretName} not found or empty`);
+    }
+
+    return secretValue;
+  } catch (error) {
+    console.error(`Error retrieving secret ${secretName}:`, error);
+    throw new Error(`Failed to retrieve secret ${secretName}`);
+  }
+}
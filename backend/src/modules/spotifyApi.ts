@@ -1,73 +1,28 @@
-import axios from 'axios';
-import { SecretManagerServiceClient } from '@google-cloud/secret-manager';
 import { DetailedMetadata } from './metadataExtraction';
-
-// Initialize the Secret Manager client
-const secretManagerClient = new SecretManagerServiceClient();
+import { calculateDurationSimilarity, calculateVersionPenalty, isTributeBand } from './matchConfidence';
+import { getSearchStorefronts } from './storefronts';
+import { createTokenManager, IssuedToken } from './tokenManager';
+import { CircuitOpenError, createHttpClient } from './httpClient';
+import { CredentialsMissingError, NoMatchError } from './errors';
+import { getSecret } from './secrets';
+import { addCandidate, getAlternatives, SearchCandidate, SearchCandidates } from './searchAlternatives';
+import {
+  cleanText,
+  normalizeArtistName,
+  normalizeText,
+  normalizeTitle,
+  removeFeaturingArtists,
+  stripVersionInfo
+} from './textNormalization';
+
+// Shared by every Spotify request, so they retry and trip the circuit together
+export const spotifyHttp = createHttpClient('Spotify');
 
 interface SpotifySearchResult {
   spotifyUrl: string;
   metadata: DetailedMetadata;
-}
-
-/**
- * Cleans title and artist names for better matching
- */
-function cleanText(text: string): string {
-  return text
-    // Remove special characters and normalize spaces
-    .replace(/[\u2000-\u206F\u2E00-\u2E7F\\'!"#$%&()*+,\-.\/:;<=>?@\[\]^_`{|}~]/g, ' ')
-    // Handle various types of quotes
-    .replace(/[''""]/g, '')
-    // Replace multiple spaces with single space
-    .replace(/\s+/g, ' ')
-    // Convert to lowercase
-    .toLowerCase()
-    .trim();
-}
-
-/**
- * Removes common featuring variations and parenthetical content
- */
-function removeFeaturingArtists(text: string): string {
-  return text
-    // Remove (feat. Artist)
-    .replace(/[\(\[\{](?:feat|ft|featuring|with)\.?\s+[^\)\]\}]+[\)\]\}]/gi, '')
-    // Remove feat. Artist without parentheses
-    .replace(/(?:feat|ft|featuring|with)\.?\s+[^([\n]+/gi, '')
-    // Remove any remaining parentheses content
-    .replace(/[\(\[\{][^\)\]\}]*[\)\]\}]/g, '')
-    .trim();
-}
-
-/**
- * Normalizes artist names by handling various edge cases
- */
-function normalizeArtistName(artist: string): string {
-  return artist
-    // Split multiple artists
-    .split(/[,&]/)
-    // Clean each artist name
-    .map(name => cleanText(removeFeaturingArtists(name)))
-    // Remove empty entries
-    .filter(Boolean)
-    // Sort to ensure consistent ordering
-    .sort()
-    .join(' ');
-}
-
-/**
- * Strips version information from album/track titles
- * This helps match different versions of the same content
- */
-function stripVersionInfo(title: string): string {
-  return title
-    // Remove remaster/remix/version indicators
-    .replace(/\([^)]*(?:remaster|remix|version|edit|deluxe|anniversary|super|edition)[^)]*\)/gi, '')
-    .replace(/\[[^]]*(?:remaster|remix|version|edit|deluxe|anniversary|super|edition)[^]]*\]/gi, '')
-    // Remove years
-    .replace(/[\(\[]\s*\d{4}\s*[\)\]]/g, '')
-    .trim();
+  /** Other results the search considered, for picking a different match */
+  alternatives?: SearchCandidate[];
 }
 
 /**
@@ -85,9 +40,9 @@ function generateSearchQueries(metadata: DetailedMetadata): string[] {
   }
 
   const title = cleanText(metadata.title);
-  const cleanTitle = removeFeaturingArtists(title);
+  const cleanTitle = cleanText(removeFeaturingArtists(metadata.title));
   const artist = normalizeArtistName(metadata.artist);
-  const strippedTitle = stripVersionInfo(cleanTitle);
+  const strippedTitle = cleanText(stripVersionInfo(removeFeaturingArtists(metadata.title)));
 
   // Add queries in order of most specific to least specific
   if (metadata.isrc) {
@@ -110,7 +65,7 @@ function generateSearchQueries(metadata: DetailedMetadata): string[] {
   // Try with album if available
   if (metadata.album) {
     const cleanAlbum = cleanText(metadata.album);
-    const strippedAlbum = stripVersionInfo(cleanAlbum);
+    const strippedAlbum = cleanText(stripVersionInfo(metadata.album));
     
     // Try with full album name
     queries.push(`track:"${cleanTitle}" album:"${cleanAlbum}"`);
@@ -144,99 +99,70 @@ function generateSearchQueries(metadata: DetailedMetadata): string[] {
 }
 
 /**
- * Retrieves the Spotify API access token using the Client Credentials Flow.
+ * Requests a Spotify API access token using the Client Credentials Flow.
  * For development, credentials are obtained from environment variables.
  * For production, secrets should be retrieved from Google Cloud Secret Manager.
  */
-async function getSpotifyAccessToken(): Promise<string> {
+async function fetchSpotifyAccessToken(): Promise<IssuedToken> {
   const clientId = process.env.SPOTIFY_CLIENT_ID || await getSecret('spotify-client-id');
   const clientSecret = process.env.SPOTIFY_CLIENT_SECRET || await getSecret('spotify-client-secret');
 
   if (!clientId || !clientSecret) {
-    throw new Error('Spotify API credentials missing');
+    throw new CredentialsMissingError('Spotify API credentials missing');
   }
 
   const tokenUrl = 'https://accounts.spotify.com/api/token';
   const data = new URLSearchParams();
   data.append('grant_type', 'client_credentials');
 
-  const response = await axios.post(tokenUrl, data.toString(), {
+  const response = await spotifyHttp.post(tokenUrl, data.toString(), {
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
       'Authorization': 'Basic ' + Buffer.from(`${clientId}:${clientSecret}`).toString('base64')
     }
   });
 
-  return response.data.access_token;
+  return { token: response.data.access_token, expiresIn: response.data.expires_in };
 }
 
+const spotifyTokens = createTokenManager(fetchSpotifyAccessToken);
+
 /**
- * Retrieves secrets from Google Cloud Secret Manager in production,
- * or returns undefined to fallback to environment variables in development.
- *
- * @param secretName Name of the secret to retrieve (spotify-client-id or spotify-client-secret)
- * @returns The secret value or undefined if in development
+ * Runs a Spotify API request with the shared access token, which is reused
+ * until it expires and refreshed if Spotify rejects it.
  */
-async function getSecret(secretName: string): Promise<string | undefined> {
-  // In development, return undefined to use environment variables
-  if (process.env.NODE_ENV !== 'production') {
-    return undefined;
-  }
-
-  try {
-    // Get the project ID from the environment or compute metadata
-    const projectId = process.env.NODE_ENV === 'production' ? 'convert-jakoblangtry-com' : process.env.GOOGLE_CLOUD_PROJECT;
-    if (!projectId) {
-      throw new Error('GOOGLE_CLOUD_PROJECT is not set');
-    }
-
-    // Access the secret version
-    const [version] = await secretManagerClient.accessSecretVersion({
-      name: `projects/${projectId}/secrets/${secretName}/versions/latest`,
-    });
-
-    // Extract the secret payload
-    const secretValue = version.payload?.data?.toString();
-    if (!secretValue) {
-      throw new Error(`Secret ${secretName} not found or empty`);
-    }
-
-    return secretValue;
-  } catch (error) {
-    console.error(`Error retrieving secret ${secretName}:`, error);
-    throw new Error(`Failed to retrieve secret ${secretName}`);
-  }
+export function withSpotifyToken<T>(request: (accessToken: string) => Promise<T>): Promise<T> {
+  return spotifyTokens.withToken(request);
 }
 
 /**
- * Checks if an artist name appears to be a tribute/cover band
+ * Lists the markets a track or album is available in, as lowercase
+ * two-letter country codes. Spotify only includes `available_markets` when
+ * the request doesn't specify a market.
  */
-function isTributeBand(artistName: string, originalArtist: string): boolean {
-  const lowerArtist = artistName.toLowerCase();
-  const lowerOriginal = originalArtist.toLowerCase();
-  
-  // Skip check if it's the exact original artist
-  if (lowerArtist === lowerOriginal) return false;
-  
-  const tributeIndicators = [
-    'tribute', 'covers', 'performs', 'plays', 'karaoke',
-    'in the style of', 'ukulele', 'instrumental', 'orchestra',
-    'string quartet', 'lullaby', 'piano version', 'jazz version'
-  ];
-  
-  // Check if artist name contains the original artist name AND any tribute indicators
-  return (lowerArtist.includes(lowerOriginal) || 
-          tributeIndicators.some(indicator => lowerArtist.includes(indicator)));
+export async function getSpotifyAvailableMarkets(type: 'track' | 'album', id: string): Promise<string[]> {
+  const response = await withSpotifyToken(accessToken =>
+    spotifyHttp.get(`https://api.spotify.com/v1/${type}s/${id}`, {
+      headers: { 'Authorization': `Bearer ${accessToken}` }
+    })
+  );
+
+  return (response.data.available_markets || []).map((market: string) => market.toLowerCase());
 }
 
 /**
- * Searches for content on Spotify using multiple search strategies
+ * Searches for content on Spotify using multiple search strategies,
+ * restricted to content playable in the given market when there is one
  */
 export async function searchSpotifyContent(
-  sourceMetadata: DetailedMetadata
+  sourceMetadata: DetailedMetadata,
+  region?: string
 ): Promise<SpotifySearchResult> {
-  const accessToken = await getSpotifyAccessToken();
   const queries = generateSearchQueries(sourceMetadata);
+  // Without a requested market, native-script titles are more likely
+  // available in their local one
+  const [market] = getSearchStorefronts(sourceMetadata, region);
+  const candidates: SearchCandidates = new Map();
   let lastError: Error | null = null;
 
   // Try each query in order until we find a match
@@ -244,15 +170,17 @@ export async function searchSpotifyContent(
     try {
       console.log('Trying Spotify search query:', searchQuery);
       
-      const response = await axios.get('https://api.spotify.com/v1/search', {
-        params: { 
-          q: searchQuery,
-          type: sourceMetadata.type,
-          limit: 10,
-          market: 'US'
-        },
-        headers: { 'Authorization': `Bearer ${accessToken}` }
-      });
+      const response = await withSpotifyToken(accessToken =>
+        spotifyHttp.get('https://api.spotify.com/v1/search', {
+          params: { 
+            q: searchQuery,
+            type: sourceMetadata.type,
+            limit: 10,
+            market: market.toUpperCase()
+          },
+          headers: { 'Authorization': `Bearer ${accessToken}` }
+        })
+      );
 
       // Log the full response for debugging
       console.log('Spotify API Response:', JSON.stringify(response.data, null, 2));
@@ -263,12 +191,16 @@ export async function searchSpotifyContent(
         continue;
       }
 
+      for (const item of items) {
+        addCandidate(candidates, item.external_urls.spotify, mapSpotifyResponse(item, sourceMetadata).metadata);
+      }
+
       // Find the best matching result
-      const bestMatch = findBestMatch(items, sourceMetadata);
+      const bestMatch = findBestMatch(items, sourceMetadata, searchQuery.startsWith('isrc:'));
       if (bestMatch) {
         const result = mapSpotifyResponse(bestMatch, sourceMetadata);
         console.log('Found best match:', JSON.stringify(result, null, 2));
-        return result;
+        return { ...result, alternatives: getAlternatives(candidates, result.spotifyUrl) };
       } else {
         console.log('No good matches found for query:', searchQuery);
       }
@@ -279,19 +211,22 @@ export async function searchSpotifyContent(
         status: error.response?.status,
         query: searchQuery
       });
+      // Spotify keeps failing, so the remaining queries would too
+      if (error instanceof CircuitOpenError) throw error;
       lastError = error;
     }
   }
 
-  throw lastError || new Error(`No ${sourceMetadata.type} found on Spotify`);
+  throw lastError || new NoMatchError(`No ${sourceMetadata.type} found on Spotify`);
 }
 
 /**
- * Finds the best matching result from Spotify search results
+ * Finds the best matching result from Spotify search results. Results of
+ * the `isrc:` query are exact; text search results are always scored.
  */
-function findBestMatch(items: any[], sourceMetadata: DetailedMetadata): any {
+function findBestMatch(items: any[], sourceMetadata: DetailedMetadata, isIsrcSearch: boolean): any {
   // For ISRC searches, return the first result (exact match)
-  if (sourceMetadata.isrc) {
+  if (isIsrcSearch) {
     return items[0];
   }
 
@@ -302,7 +237,7 @@ function findBestMatch(items: any[], sourceMetadata: DetailedMetadata): any {
     
     // Check if this is by the original artist
     const isOriginalArtist = item.artists?.some((a: any) => 
-      cleanText(a.name) === cleanText(sourceMetadata.artist)
+      normalizeText(a.name) === normalizeText(sourceMetadata.artist)
     );
     
     return {
@@ -327,7 +262,7 @@ function findBestMatch(items: any[], sourceMetadata: DetailedMetadata): any {
     // First try to find a decent match by the original artist
     const originalArtistMatch = decentMatches.find(s => 
       s.item.artists?.some((a: any) => 
-        cleanText(a.name) === cleanText(sourceMetadata.artist)
+        normalizeText(a.name) === normalizeText(sourceMetadata.artist)
       )
     );
     
@@ -352,8 +287,8 @@ function calculateMatchScore(spotifyItem: any, sourceMetadata: DetailedMetadata)
 
   // Handle artist searches differently
   if (sourceMetadata.type === 'artist') {
-    const spotifyName = cleanText(spotifyItem.name);
-    const sourceName = cleanText(sourceMetadata.artist);
+    const spotifyName = normalizeText(spotifyItem.name);
+    const sourceName = normalizeText(sourceMetadata.artist);
 
     // Exact match
     if (spotifyName === sourceName) {
@@ -383,17 +318,17 @@ function calculateMatchScore(spotifyItem: any, sourceMetadata: DetailedMetadata)
   }
 
   // For tracks and albums
-  const spotifyTitle = cleanText(spotifyItem.name);
-  const sourceTitle = cleanText(sourceMetadata.title);
+  const spotifyTitle = normalizeText(spotifyItem.name);
+  const sourceTitle = normalizeText(sourceMetadata.title);
   const spotifyArtist = normalizeArtistName(
-    spotifyItem.artists?.map((a: any) => a.name).join(' ') || ''
+    spotifyItem.artists?.map((a: any) => a.name).join(', ') || ''
   );
   const sourceArtist = normalizeArtistName(sourceMetadata.artist);
 
   // Title match (40%)
   if (spotifyTitle === sourceTitle) {
     score += 0.4;
-  } else if (removeFeaturingArtists(spotifyTitle) === removeFeaturingArtists(sourceTitle)) {
+  } else if (normalizeTitle(spotifyItem.name) === normalizeTitle(sourceMetadata.title)) {
     score += 0.3;
   } else if (spotifyTitle.includes(sourceTitle) || sourceTitle.includes(spotifyTitle)) {
     score += 0.2;
@@ -411,20 +346,24 @@ function calculateMatchScore(spotifyItem: any, sourceMetadata: DetailedMetadata)
     score *= 0.1;  // 90% penalty
   }
 
-  // Duration match (10%) - if within 2 seconds
-  if (sourceMetadata.duration && Math.abs(spotifyItem.duration_ms - sourceMetadata.duration) < 2000) {
-    score += 0.1;
+  // Duration match (10%) - graded, so longer live or extended cuts score lower
+  const durationSimilarity = calculateDurationSimilarity(sourceMetadata.duration, spotifyItem.duration_ms);
+  if (durationSimilarity !== null) {
+    score += 0.1 * durationSimilarity;
   }
 
   // Album match (10%)
   if (sourceMetadata.album && spotifyItem.album) {
-    const spotifyAlbum = cleanText(spotifyItem.album.name);
-    const sourceAlbum = cleanText(sourceMetadata.album);
+    const spotifyAlbum = normalizeText(spotifyItem.album.name);
+    const sourceAlbum = normalizeText(sourceMetadata.album);
     if (spotifyAlbum === sourceAlbum) {
       score += 0.1;
     }
   }
 
+  // Penalize different versions (live, remix, sped up, explicit vs. clean)
+  score *= calculateVersionPenalty(sourceMetadata, { title: spotifyItem.name, explicit: spotifyItem.explicit });
+
   return score;
 }
 
@@ -465,9 +404,10 @@ function mapSpotifyResponse(spotifyItem: any, sourceMetadata: DetailedMetadata):
       album: spotifyItem.album?.name,
       releaseDate: spotifyItem.album?.release_date || spotifyItem.release_date,
       trackNumber: spotifyItem.track_number,
-      totalTracks: spotifyItem.album?.total_tracks,
+      totalTracks: sourceMetadata.type === 'album' ? spotifyItem.total_tracks : spotifyItem.album?.total_tracks,
       discNumber: spotifyItem.disc_number,
       duration: spotifyItem.duration_ms,
+      explicit: spotifyItem.explicit,
       previewUrl: spotifyItem.preview_url,
     };
   }
@@ -0,0 +1,44 @@
+import { DetailedMetadata } from './metadataExtraction';
+import { detectScript, Script } from './textNormalization';
+
+// The storefront searched when nothing points to a local catalog
+export const DEFAULT_STOREFRONT = 'us';
+
+// Catalogs where content in a given script is most likely listed under its native title
+const SCRIPT_STOREFRONTS: Partial<Record<Script, string>> = {
+  hangul: 'kr',
+  kana: 'jp',
+  cyrillic: 'ru',
+  greek: 'gr'
+};
+
+/**
+ * Validates a region (storefront or market) given by a user, e.g. "GB" or
+ * "jp", returning it in lowercase, or null when it isn't a two-letter code.
+ */
+export function parseRegion(region: string): string | null {
+  return /^[a-z]{2}$/i.test(region) ? region.toLowerCase() : null;
+}
+
+/**
+ * Picks the storefronts to search for some source content, most specific
+ * first. A requested region is the only storefront searched, since results
+ * from other storefronts may not play there. Otherwise a local storefront is
+ * tried when the title or artist is written in a script tied to one
+ * (Hangul -> kr, kana -> jp), then the default storefront.
+ *
+ * Local catalogs list K-pop and J-pop under their native titles, while the
+ * US catalog often only has romanized or English ones.
+ *
+ * @param metadata - The source metadata.
+ * @param region - The storefront results must be playable in, if any.
+ * @returns Lowercase two-letter storefront codes, without duplicates.
+ */
+export function getSearchStorefronts(metadata: DetailedMetadata, region?: string): string[] {
+  if (region) return [region.toLowerCase()];
+
+  const script = detectScript(`${metadata.title} ${metadata.artist}`);
+  const local = SCRIPT_STOREFRONTS[script];
+
+  return local ? [local, DEFAULT_STOREFRONT] : [DEFAULT_STOREFRONT];
+}
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  calculateStringSimilarity,
+  levenshteinDistance,
+  levenshteinRatio,
+  tokenSetRatio,
+  tokenSortRatio
+} from './stringSimilarity';
+
+describe('levenshteinDistance', () => {
+  it('counts single-character edits', () => {
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(levenshteinDistance('', 'abc')).toBe(3);
+    expect(levenshteinDistance('same', 'same')).toBe(0);
+  });
+});
+
+describe('levenshteinRatio', () => {
+  it('scales the distance by the longer string', () => {
+    expect(levenshteinRatio('abcd', 'abce')).toBe(0.75);
+    expect(levenshteinRatio('', '')).toBe(1);
+  });
+});
+
+describe('tokenSortRatio', () => {
+  it('ignores word order', () => {
+    expect(tokenSortRatio('Beyoncé Jay-Z', 'Jay-Z Beyoncé')).toBe(1);
+  });
+});
+
+describe('tokenSetRatio', () => {
+  it('scores a string that is a subset of the other as a full match', () => {
+    expect(tokenSetRatio('Song', 'Song Radio Edit')).toBe(1);
+  });
+});
+
+describe('calculateStringSimilarity', () => {
+  it('treats case, punctuation and diacritics as equal', () => {
+    expect(calculateStringSimilarity('Café Del Mar', 'cafe del mar!')).toBe(1);
+  });
+
+  it('scores titles that only differ by featured artists just below exact', () => {
+    expect(calculateStringSimilarity('Stay (feat. Justin Bieber)', 'Stay')).toBe(0.95);
+    expect(calculateStringSimilarity('Stay ft. Justin Bieber', 'Stay')).toBe(0.95);
+  });
+
+  it('scores titles that only differ by remaster info just below exact', () => {
+    expect(calculateStringSimilarity('Heroes - 2017 Remaster', 'Heroes')).toBe(0.95);
+    expect(calculateStringSimilarity('Heroes (Remastered 2017)', 'Heroes')).toBe(0.95);
+  });
+
+  it('scores a remix below the original', () => {
+    const similarity = calculateStringSimilarity('Levels (Skrillex Remix)', 'Levels');
+    expect(similarity).toBeLessThan(0.95);
+    expect(similarity).toBeGreaterThan(0);
+  });
+
+  it('ignores word order', () => {
+    expect(calculateStringSimilarity('Simon & Garfunkel', 'Garfunkel & Simon')).toBe(1);
+  });
+
+  it('does not treat a title contained in another as a near-certain match', () => {
+    expect(calculateStringSimilarity('Love', 'Love Me Do')).toBeLessThan(0.5);
+  });
+
+  it('scores unrelated titles low', () => {
+    expect(calculateStringSimilarity('Bohemian Rhapsody', 'Yesterday')).toBeLessThan(0.3);
+  });
+});
+
+describe('calculateStringSimilarity across scripts', () => {
+  const originalSetting = process.env.MATCH_TRANSLITERATION;
+
+  afterEach(() => {
+    if (originalSetting === undefined) {
+      delete process.env.MATCH_TRANSLITERATION;
+    } else {
+      process.env.MATCH_TRANSLITERATION = originalSetting;
+    }
+  });
+
+  // The setting is read when the module loads, so each test gets a fresh copy
+  function loadSimilarity(): typeof calculateStringSimilarity {
+    let similarity!: typeof calculateStringSimilarity;
+    jest.isolateModules(() => {
+      similarity = require('./stringSimilarity').calculateStringSimilarity;
+    });
+    return similarity;
+  }
+
+  it('compares romanized forms of Hangul, kana and Cyrillic', () => {
+    delete process.env.MATCH_TRANSLITERATION;
+    const similarity = loadSimilarity();
+
+    expect(similarity('아이유', 'Aiyu')).toBe(0.9);
+    expect(similarity('さくら', 'Sakura')).toBe(0.9);
+    expect(similarity('Кино', 'Kino')).toBe(0.9);
+  });
+
+  it('skips transliteration when MATCH_TRANSLITERATION=false', () => {
+    process.env.MATCH_TRANSLITERATION = 'false';
+    const similarity = loadSimilarity();
+
+    expect(similarity('아이유', 'Aiyu')).toBeLessThan(0.3);
+    expect(similarity('Кино', 'Kino')).toBeLessThan(0.3);
+  });
+});
@@ -0,0 +1,155 @@
+import { detectScript, normalizeText, stripFeaturedArtists, stripRemasterInfo } from './textNormalization';
+import { transliterate } from './transliteration';
+
+// Subset matches ("Song" vs "Song Remix") are likely but not certain to be the same thing
+const TOKEN_SET_WEIGHT = 0.8;
+
+// How much of the subset score is lost as the share of unmatched words grows,
+// so "Love" vs "Love Me Do" isn't taken for the same song
+const UNMATCHED_TOKEN_PENALTY = 0.75;
+
+// Matches that only differ by featured artists or remaster info
+const FEATURING_STRIPPED_SCORE = 0.95;
+
+// Romanizations vary ("Kino" vs "Kyno"), so cross-script matches never count as exact
+const TRANSLITERATED_WEIGHT = 0.9;
+
+// Comparing across scripts through transliteration can be turned off
+const TRANSLITERATION_ENABLED = process.env.MATCH_TRANSLITERATION !== 'false';
+
+/**
+ * Splits a normalized string into its words
+ */
+function tokenize(text: string): string[] {
+  return text.split(' ').filter(token => token.length > 0);
+}
+
+/**
+ * Calculates the Levenshtein edit distance between two strings: the number
+ * of single-character insertions, deletions and substitutions needed to turn
+ * one into the other.
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  // Only the previous row of the distance matrix is needed
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Edit distance scaled to a similarity between 0 and 1
+ */
+export function levenshteinRatio(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - levenshteinDistance(a, b) / longest;
+}
+
+/**
+ * Compares two strings with their words sorted, so word order doesn't matter
+ * ("Beyoncé Jay-Z" vs "Jay-Z Beyoncé").
+ */
+export function tokenSortRatio(a: string, b: string): number {
+  const sortTokens = (text: string) => tokenize(normalizeText(text)).sort().join(' ');
+  return levenshteinRatio(sortTokens(a), sortTokens(b));
+}
+
+/**
+ * Compares the words two strings share against each string's full set of
+ * words, so a string that is a subset of the other scores highly
+ * ("Song" vs "Song Radio Edit").
+ */
+export function tokenSetRatio(a: string, b: string): number {
+  const tokensA = new Set(tokenize(normalizeText(a)));
+  const tokensB = new Set(tokenize(normalizeText(b)));
+
+  const intersection = [...tokensA].filter(token => tokensB.has(token)).sort();
+  const onlyA = [...tokensA].filter(token => !tokensB.has(token)).sort();
+  const onlyB = [...tokensB].filter(token => !tokensA.has(token)).sort();
+
+  const common = intersection.join(' ');
+  const combinedA = [...intersection, ...onlyA].join(' ');
+  const combinedB = [...intersection, ...onlyB].join(' ');
+
+  // Nothing in common means the comparison falls back to the full strings
+  if (common.length === 0) {
+    return levenshteinRatio(combinedA, combinedB);
+  }
+
+  return Math.max(
+    levenshteinRatio(common, combinedA),
+    levenshteinRatio(common, combinedB),
+    levenshteinRatio(combinedA, combinedB)
+  );
+}
+
+/**
+ * The share of the distinct words in two strings that only one of them has
+ */
+function unmatchedTokenShare(a: string, b: string): number {
+  const tokensA = new Set(tokenize(normalizeText(a)));
+  const tokensB = new Set(tokenize(normalizeText(b)));
+  const allTokens = new Set([...tokensA, ...tokensB]);
+  if (allTokens.size === 0) return 0;
+
+  const shared = [...tokensA].filter(token => tokensB.has(token)).length;
+  return (allTokens.size - shared) / allTokens.size;
+}
+
+/**
+ * Calculates how similar two titles or names are, between 0 and 1.
+ *
+ * Text is normalized with the shared rules in `textNormalization`, and word
+ * order is ignored. Strings that only differ by featured artists or remaster
+ * info score just below an exact match, and everything else is scored by the
+ * best of edit distance, sorted-word and word-subset comparison. Subset
+ * matches are discounted, more so the more words are left unmatched. Strings
+ * in different scripts are also compared after transliteration, unless
+ * MATCH_TRANSLITERATION=false.
+ */
+export function calculateStringSimilarity(str1: string, str2: string): number {
+  const similarity = calculateSameScriptSimilarity(str1, str2);
+
+  // Services often disagree on script, e.g. "아이유" on one and "IU" or
+  // "Aiyu" on another, so also compare romanized forms
+  if (TRANSLITERATION_ENABLED && similarity < 1 && detectScript(str1) !== detectScript(str2)) {
+    const transliterated = calculateSameScriptSimilarity(transliterate(str1), transliterate(str2));
+    return Math.max(similarity, transliterated * TRANSLITERATED_WEIGHT);
+  }
+
+  return similarity;
+}
+
+/**
+ * Scores two strings without any transliteration
+ */
+function calculateSameScriptSimilarity(str1: string, str2: string): number {
+  const s1 = normalizeText(str1);
+  const s2 = normalizeText(str2);
+
+  if (s1 === s2) return 1;
+
+  const n1 = normalizeText(stripRemasterInfo(stripFeaturedArtists(str1)));
+  const n2 = normalizeText(stripRemasterInfo(stripFeaturedArtists(str2)));
+
+  if (n1.length > 0 && n1 === n2) return FEATURING_STRIPPED_SCORE;
+
+  return Math.max(
+    levenshteinRatio(s1, s2),
+    tokenSortRatio(s1, s2),
+    tokenSetRatio(s1, s2) * TOKEN_SET_WEIGHT * (1 - UNMATCHED_TOKEN_PENALTY * unmatchedTokenShare(s1, s2))
+  );
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from '@jest/globals';
+import { cleanText, detectScript, foldDiacritics, normalizeText, normalizeUnicode } from './textNormalization';
+
+describe('normalizeUnicode', () => {
+  it('folds full-width Latin letters and digits', () => {
+    expect(normalizeUnicode('ＢＴＳ ２０１３')).toBe('BTS 2013');
+  });
+
+  it('folds half-width katakana to full-width', () => {
+    expect(normalizeUnicode('ｶﾀｶﾅ')).toBe('カタカナ');
+  });
+});
+
+describe('foldDiacritics', () => {
+  it('removes accents from Latin and Cyrillic letters', () => {
+    expect(foldDiacritics('Beyoncé Ñandú')).toBe('Beyonce Nandu');
+    expect(foldDiacritics('Ёлка')).toBe('Елка');
+  });
+
+  it('keeps Japanese voicing marks', () => {
+    expect(foldDiacritics('が')).toBe('が');
+  });
+});
+
+describe('cleanText', () => {
+  it('joins words around apostrophes and drops other punctuation', () => {
+    expect(cleanText("Don't Stop Me Now!")).toBe('dont stop me now');
+  });
+
+  it('applies NFKC before folding diacritics', () => {
+    expect(cleanText('ＢＥＹＯＮＣÉ')).toBe('beyonce');
+  });
+});
+
+describe('normalizeText', () => {
+  it('treats "&" as "and" and drops a leading "The"', () => {
+    expect(normalizeText('The Kinks & Me')).toBe('kinks and me');
+  });
+
+  it('folds hiragana to katakana', () => {
+    expect(normalizeText('さくら')).toBe(normalizeText('サクラ'));
+  });
+});
+
+describe('detectScript', () => {
+  it('detects the main script', () => {
+    expect(detectScript('아이유')).toBe('hangul');
+    expect(detectScript('東京')).toBe('han');
+    expect(detectScript('Кино')).toBe('cyrillic');
+  });
+
+  it('reports Japanese as kana when it mixes kana with Han characters', () => {
+    expect(detectScript('東京ラブストーリー')).toBe('kana');
+  });
+
+  it('defaults to Latin for text without letters', () => {
+    expect(detectScript('1999')).toBe('latin');
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Text normalization shared by every provider's query generation, match
+ * scoring and confidence calculation, so matching behaves the same no matter
+ * which direction a link is converted in.
+ */
+
+import { foldKana } from './transliteration';
+
+// Words that mark a particular version of a recording or release
+const VERSION_KEYWORDS = [
+  'remaster', 'remastered', 'remix', 'mix', 'live', 'acoustic', 'instrumental',
+  'demo', 'edit', 'version', 'deluxe', 'anniversary', 'edition', 'expanded',
+  'mono', 'stereo', 'unplugged', 'karaoke', 'extended', 'radio', 'explicit', 'clean',
+  'sped', 'slowed'
+];
+
+// Featured artist credits, bracketed: "(feat. X)", "[with X]"
+const BRACKETED_FEATURING = /[\(\[\{]\s*(?:feat|ft|featuring|with)\.?\s+([^\)\]\}]+)[\)\]\}]/gi;
+
+// Featured artist credits trailing the title: "Song feat. X"
+const TRAILING_FEATURING = /\s(?:feat|ft|featuring)\.?\s+(.+)$/i;
+
+// Separators between credited artists: "A, B & C", "A and B", "A x B", "A feat. B"
+const ARTIST_SEPARATORS = /\s*(?:,|&|\+|;|\/|\s+and\s+|\s+x\s+|\s+(?:feat|ft|featuring|with)\.?\s+)\s*/i;
+
+/**
+ * The writing systems we distinguish when matching and picking storefronts.
+ */
+export type Script = 'latin' | 'hangul' | 'kana' | 'han' | 'cyrillic' | 'greek' | 'other';
+
+/**
+ * Applies Unicode compatibility normalization (NFKC), which also folds
+ * full-width Latin letters and digits to their regular forms and half-width
+ * katakana to full-width, e.g. "ＢＴＳ" becomes "BTS".
+ */
+export function normalizeUnicode(text: string): string {
+  return text.normalize('NFKC');
+}
+
+/**
+ * Removes accents from Latin, Greek and Cyrillic letters, e.g. "Beyoncé"
+ * becomes "Beyonce". Only the general combining diacritics are removed, so
+ * Japanese voicing marks (が) and Hangul are left intact.
+ */
+export function foldDiacritics(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]+/g, '').normalize('NFC');
+}
+
+/**
+ * Cleans title and artist names for search queries: applies NFKC, folds
+ * diacritics, drops apostrophes, turns other punctuation into spaces and
+ * lowercases. Letters and digits of every script are kept.
+ */
+export function cleanText(text: string): string {
+  return foldDiacritics(normalizeUnicode(text))
+    // Apostrophes and quotes join words ("Don't" -> "dont")
+    .replace(/['‘’`"“”]/g, '')
+    // Remove other special characters and normalize spaces
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * Finds the main script a piece of text is written in. Japanese text is
+ * reported as kana whenever it contains any, since it usually mixes kana
+ * with Han characters.
+ */
+export function detectScript(text: string): Script {
+  const counts: Record<Script, number> = { latin: 0, hangul: 0, kana: 0, han: 0, cyrillic: 0, greek: 0, other: 0 };
+
+  for (const char of text) {
+    if (/\p{Script=Hangul}/u.test(char)) counts.hangul++;
+    else if (/[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(char)) counts.kana++;
+    else if (/\p{Script=Han}/u.test(char)) counts.han++;
+    else if (/\p{Script=Cyrillic}/u.test(char)) counts.cyrillic++;
+    else if (/\p{Script=Greek}/u.test(char)) counts.greek++;
+    else if (/\p{Script=Latin}/u.test(char)) counts.latin++;
+    else if (/\p{L}/u.test(char)) counts.other++;
+  }
+
+  if (counts.kana > 0) return 'kana';
+
+  const [script, count] = (Object.entries(counts) as [Script, number][])
+    .sort((a, b) => b[1] - a[1])[0];
+  return count > 0 ? script : 'latin';
+}
+
+/**
+ * Normalizes text for comparison: like `cleanText`, but "&" and "and" are
+ * treated the same, a leading "The" is dropped and hiragana is folded to
+ * katakana.
+ */
+export function normalizeText(text: string): string {
+  return foldKana(cleanText(text.replace(/\s*&\s*/g, ' and ')))
+    .replace(/^the\s+/, '');
+}
+
+/**
+ * Extracts featured artist credits from a title.
+ *
+ * @returns The title without the credits, and the credited artists.
+ */
+export function extractFeaturedArtists(title: string): { title: string; featured: string[] } {
+  const featured: string[] = [];
+
+  let stripped = title.replace(BRACKETED_FEATURING, (_, artists: string) => {
+    featured.push(...splitArtists(artists));
+    return '';
+  });
+
+  const trailing = stripped.match(TRAILING_FEATURING);
+  if (trailing) {
+    featured.push(...splitArtists(trailing[1]));
+    stripped = stripped.slice(0, trailing.index);
+  }
+
+  return { title: stripped.replace(/\s+/g, ' ').trim(), featured };
+}
+
+/**
+ * Removes featured artist credits from a title, e.g. "Song (feat. X)"
+ */
+export function stripFeaturedArtists(title: string): string {
+  return extractFeaturedArtists(title).title;
+}
+
+/**
+ * Removes all bracketed content, e.g. "(Live)" or "[Deluxe Edition]"
+ */
+export function stripBracketedContent(text: string): string {
+  return text
+    .replace(/[\(\[\{][^\)\]\}]*[\)\]\}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Removes featured artist credits and any other bracketed content
+ */
+export function removeFeaturingArtists(text: string): string {
+  return stripBracketedContent(stripFeaturedArtists(text));
+}
+
+/**
+ * Finds the version keywords in a title, whether bracketed ("(Live)") or
+ * dash-separated ("- Remastered 2011"), e.g. ['live'] or ['remastered'].
+ */
+export function extractVersionTags(title: string): string[] {
+  const annotations = [
+    ...(title.match(/[\(\[\{][^\)\]\}]*[\)\]\}]/g) || []),
+    ...(title.match(/\s-\s.*$/) || [])
+  ];
+
+  const words = annotations.flatMap(annotation => cleanText(annotation).split(' '));
+  return [...new Set(words.filter(word => VERSION_KEYWORDS.includes(word)))];
+}
+
+/**
+ * Strips version information ("(Remastered 2011)", "- Live", "[Deluxe]")
+ * from album and track titles, so different versions of the same content
+ * can be matched.
+ */
+export function stripVersionInfo(title: string): string {
+  const keywords = VERSION_KEYWORDS.join('|');
+  return title
+    // Remove bracketed version indicators
+    .replace(new RegExp(`[\\(\\[][^\\)\\]]*\\b(?:${keywords})\\b[^\\)\\]]*[\\)\\]]`, 'gi'), '')
+    // Remove dash-separated version indicators
+    .replace(new RegExp(`\\s-\\s[^-]*\\b(?:${keywords})\\b.*$`, 'i'), '')
+    // Remove years
+    .replace(/[\(\[]\s*\d{4}\s*[\)\]]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Removes remaster info, which doesn't change the recording, e.g.
+ * "(2011 Remaster)" or "- Remastered 2011"
+ */
+export function stripRemasterInfo(text: string): string {
+  return text
+    .replace(/[\(\[][^\)\]]*remaster[^\)\]]*[\)\]]/gi, '')
+    .replace(/\s+-\s+(?:\d{4}\s+)?remaster(?:ed)?(?:\s+\d{4})?(?:\s+version)?\s*$/gi, '')
+    .trim();
+}
+
+/**
+ * Normalizes a title for comparison, ignoring featured artists and
+ * bracketed content.
+ */
+export function normalizeTitle(title: string): string {
+  return normalizeText(removeFeaturingArtists(title));
+}
+
+/**
+ * Splits a credit such as "A, B & C" into the individual artist names
+ */
+export function splitArtists(artist: string): string[] {
+  return artist
+    .split(ARTIST_SEPARATORS)
+    .map(name => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Returns the first credited artist, e.g. "A" for "A feat. B"
+ */
+export function getMainArtist(artist: string): string {
+  return splitArtists(artist)[0] || artist.trim();
+}
+
+/**
+ * Normalizes artist credits so the same artists compare equal regardless of
+ * separators, ordering or a leading "The".
+ */
+export function normalizeArtistName(artist: string): string {
+  return splitArtists(artist)
+    .map(normalizeText)
+    .filter(Boolean)
+    // Sort to ensure consistent ordering
+    .sort()
+    .join(' ');
+}
@@ -0,0 +1,377 @@
+import { DetailedMetadata } from './metadataExtraction';
+import { addCandidate, getAlternatives, SearchCandidate, SearchCandidates } from './searchAlternatives';
+import { TidalMetadata } from './linkConversion';
+import { calculateMatchConfidence, getUpcForms } from './matchConfidence';
+import { getMainArtist, removeFeaturingArtists } from './textNormalization';
+import { createTokenManager, IssuedToken } from './tokenManager';
+import { ContentNotFoundError, CredentialsMissingError, NoMatchError } from './errors';
+import { CircuitOpenError, createHttpClient } from './httpClient';
+import { getSecret } from './secrets';
+import { parseIsoDuration } from './duration';
+
+// Shared by every Tidal request, so they retry and trip the circuit together
+const tidalHttp = createHttpClient('Tidal');
+
+const TIDAL_API_URL = 'https://openapi.tidal.com/v2';
+
+// Tidal's catalog is queried per country; this matches the US market used elsewhere
+const TIDAL_COUNTRY_CODE = 'US';
+
+interface TidalSearchResult {
+  tidalUrl: string;
+  metadata: DetailedMetadata;
+  /** Other results the search considered, for picking a different match */
+  alternatives?: SearchCandidate[];
+}
+
+/**
+ * A JSON:API resource as returned by the Tidal catalog API.
+ */
+interface TidalResource {
+  id: string;
+  type: string;
+  attributes?: Record<string, any>;
+  relationships?: Record<string, { data?: Array<{ id: string; type: string }> }>;
+}
+
+/**
+ * A JSON:API document: the primary data plus any included related resources.
+ */
+interface TidalDocument {
+  data: TidalResource | TidalResource[];
+  included?: TidalResource[];
+}
+
+/**
+ * Requests a Tidal API access token using the Client Credentials Flow.
+ * For development, credentials are obtained from environment variables.
+ * For production, secrets should be retrieved from Google Cloud Secret Manager.
+ */
+async function fetchTidalAccessToken(): Promise<IssuedToken> {
+  const clientId = process.env.TIDAL_CLIENT_ID || await getSecret('tidal-client-id');
+  const clientSecret = process.env.TIDAL_CLIENT_SECRET || await getSecret('tidal-client-secret');
+
+  if (!clientId || !clientSecret) {
+    throw new CredentialsMissingError('Tidal API credentials missing');
+  }
+
+  const tokenUrl = 'https://auth.tidal.com/v1/oauth2/token';
+  const data = new URLSearchParams();
+  data.append('grant_type', 'client_credentials');
+
+  const response = await tidalHttp.post(tokenUrl, data.toString(), {
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Authorization': 'Basic ' + Buffer.from(`${clientId}:${clientSecret}`).toString('base64')
+    }
+  });
+
+  return { token: response.data.access_token, expiresIn: response.data.expires_in };
+}
+
+const tidalTokens = createTokenManager(fetchTidalAccessToken);
+
+/**
+ * Performs a GET request against the Tidal catalog API with the shared
+ * access token.
+ */
+async function tidalGet(
+  path: string,
+  params: Record<string, string> = {}
+): Promise<TidalDocument> {
+  const response = await tidalTokens.withToken(accessToken =>
+    tidalHttp.get(`${TIDAL_API_URL}${path}`, {
+      params: { countryCode: TIDAL_COUNTRY_CODE, ...params },
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Accept': 'application/vnd.api+json'
+      }
+    })
+  );
+
+  return response.data;
+}
+
+/**
+ * Builds the Tidal URL for a piece of content.
+ */
+export function buildTidalUrl(type: DetailedMetadata['type'], id: string): string {
+  return `https://tidal.com/browse/${type}/${id}`;
+}
+
+/**
+ * Looks up the related resources of a given type for a resource
+ */
+function getRelated(resource: TidalResource, relationship: string, included: TidalResource[] = []): TidalResource[] {
+  const refs = resource.relationships?.[relationship]?.data || [];
+  return refs
+    .map(ref => included.find(item => item.id === ref.id && item.type === ref.type))
+    .filter((item): item is TidalResource => item !== undefined);
+}
+
+/**
+ * Picks the largest image from a list of Tidal image links
+ */
+function getImageUrl(imageLinks?: Array<{ href: string; meta?: { width?: number } }>): string | undefined {
+  if (!imageLinks || imageLinks.length === 0) return undefined;
+  return [...imageLinks].sort((a, b) => (b.meta?.width || 0) - (a.meta?.width || 0))[0].href;
+}
+
+/**
+ * Maps a Tidal track resource to our metadata format
+ */
+function mapTidalTrack(track: TidalResource, included?: TidalResource[]): DetailedMetadata {
+  const attributes = track.attributes || {};
+  const artists = getRelated(track, 'artists', included);
+  const album = getRelated(track, 'albums', included)[0];
+
+  // Tidal keeps version info ("Remastered", "Live") separate from the title
+  const title = attributes.version ? `${attributes.title} (${attributes.version})` : attributes.title;
+
+  return {
+    type: 'track',
+    title,
+    artist: artists.map(artist => artist.attributes?.name).filter(Boolean).join(', '),
+    album: album?.attributes?.title,
+    artworkUrl: getImageUrl(album?.attributes?.imageLinks),
+    releaseDate: album?.attributes?.releaseDate,
+    isrc: attributes.isrc,
+    duration: parseIsoDuration(attributes.duration),
+    explicit: attributes.explicit,
+    popularity: attributes.popularity !== undefined ? Math.round(attributes.popularity * 100) : undefined
+  };
+}
+
+/**
+ * Maps a Tidal album resource to our metadata format
+ */
+function mapTidalAlbum(album: TidalResource, included?: TidalResource[]): DetailedMetadata {
+  const attributes = album.attributes || {};
+  const artists = getRelated(album, 'artists', included);
+
+  return {
+    type: 'album',
+    title: attributes.title,
+    artist: artists.map(artist => artist.attributes?.name).filter(Boolean).join(', '),
+    artworkUrl: getImageUrl(attributes.imageLinks),
+    releaseDate: attributes.releaseDate,
+    totalTracks: attributes.numberOfItems,
+    totalDiscs: attributes.numberOfVolumes,
+    upc: attributes.barcodeId,
+    explicit: attributes.explicit,
+    popularity: attributes.popularity !== undefined ? Math.round(attributes.popularity * 100) : undefined
+  };
+}
+
+/**
+ * Maps a Tidal artist resource to our metadata format
+ */
+function mapTidalArtist(artist: TidalResource): DetailedMetadata {
+  const attributes = artist.attributes || {};
+
+  return {
+    type: 'artist',
+    title: attributes.name,
+    artist: attributes.name,
+    artworkUrl: getImageUrl(attributes.imageLinks),
+    popularity: attributes.popularity !== undefined ? Math.round(attributes.popularity * 100) : undefined
+  };
+}
+
+/**
+ * Maps any Tidal resource to our metadata format based on its content type
+ */
+function mapTidalResource(
+  type: DetailedMetadata['type'],
+  resource: TidalResource,
+  included?: TidalResource[]
+): DetailedMetadata {
+  switch (type) {
+    case 'track':
+      return mapTidalTrack(resource, included);
+    case 'album':
+      return mapTidalAlbum(resource, included);
+    case 'artist':
+      return mapTidalArtist(resource);
+  }
+}
+
+/**
+ * Gets detailed metadata from Tidal for a given track/album/artist.
+ *
+ * @param tidalData - The parsed Tidal metadata.
+ * @returns Detailed metadata about the content.
+ */
+export async function getTidalDetailedMetadata(tidalData: TidalMetadata): Promise<DetailedMetadata> {
+  const include = tidalData.type === 'track' ? 'artists,albums' :
+                  tidalData.type === 'album' ? 'artists,items' :
+                  undefined;
+
+  const document = await tidalGet(
+    `/${tidalData.type}s/${tidalData.id}`,
+    include ? { include } : {}
+  );
+
+  const resource = Array.isArray(document.data) ? document.data[0] : document.data;
+  if (!resource) {
+    throw new ContentNotFoundError('No metadata found for the provided Tidal link');
+  }
+
+  const metadata = mapTidalResource(tidalData.type, resource, document.included);
+
+  if (tidalData.type === 'album') {
+    // Album items can also be videos, which have no counterpart elsewhere
+    metadata.tracks = getRelated(resource, 'items', document.included)
+      .filter(item => item.type === 'tracks')
+      .map(item => {
+        const track = mapTidalTrack(item, document.included);
+        return { ...track, artist: track.artist || metadata.artist, album: metadata.title };
+      });
+  }
+
+  return metadata;
+}
+
+/**
+ * Looks content up directly by ISRC (tracks) or barcode (albums).
+ * Returns null if there is no code or no hit.
+ */
+async function findByCode(
+  sourceMetadata: DetailedMetadata,
+  countryCode: string
+): Promise<{ resource: TidalResource; included?: TidalResource[] } | null> {
+  let path: string;
+  let lookups: Record<string, string>[];
+
+  if (sourceMetadata.type === 'track' && sourceMetadata.isrc) {
+    path = '/tracks';
+    lookups = [{ 'filter[isrc]': sourceMetadata.isrc, include: 'artists,albums', countryCode }];
+  } else if (sourceMetadata.type === 'album' && sourceMetadata.upc) {
+    path = '/albums';
+    // Barcodes are matched exactly, and may be stored as 12-digit UPC-A or 13-digit EAN
+    lookups = getUpcForms(sourceMetadata.upc)
+      .map(barcode => ({ 'filter[barcodeId]': barcode, include: 'artists', countryCode }));
+  } else {
+    return null;
+  }
+
+  for (const params of lookups) {
+    try {
+      const document = await tidalGet(path, params);
+      const resources = Array.isArray(document.data) ? document.data : [document.data];
+      if (resources.length > 0 && resources[0]) {
+        return { resource: resources[0], included: document.included };
+      }
+    } catch (error: any) {
+      console.error('Tidal code lookup error:', {
+        message: error.message,
+        status: error.response?.status,
+        params
+      });
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Generates text search queries with different variations
+ */
+function generateSearchQueries(metadata: DetailedMetadata): string[] {
+  const mainArtist = getMainArtist(metadata.artist);
+
+  if (metadata.type === 'artist') {
+    return [metadata.artist];
+  }
+
+  const queries = [
+    `${metadata.title} ${metadata.artist}`,
+    `${removeFeaturingArtists(metadata.title)} ${mainArtist}`
+  ];
+
+  return [...new Set(queries)];
+}
+
+/**
+ * Searches for content on Tidal, first by ISRC/barcode and then by text,
+ * ranking text results with the same confidence scoring used for the
+ * conversion response. Results are limited to the given region's catalog
+ * when there is one.
+ */
+export async function searchTidalContent(
+  sourceMetadata: DetailedMetadata,
+  region?: string
+): Promise<TidalSearchResult> {
+  const countryCode = (region || TIDAL_COUNTRY_CODE).toUpperCase();
+
+  const codeMatch = await findByCode(sourceMetadata, countryCode);
+  if (codeMatch) {
+    return {
+      tidalUrl: buildTidalUrl(sourceMetadata.type, codeMatch.resource.id),
+      metadata: mapTidalResource(sourceMetadata.type, codeMatch.resource, codeMatch.included)
+    };
+  }
+
+  const relationship = `${sourceMetadata.type}s`;
+  const queries = generateSearchQueries(sourceMetadata);
+  const candidates: SearchCandidates = new Map();
+  let lastError: Error | null = null;
+  let bestMatchSoFar: { id: string; metadata: DetailedMetadata; score: number } | null = null;
+
+  for (const searchQuery of queries) {
+    try {
+      console.log('Trying Tidal search query:', searchQuery);
+
+      const include = sourceMetadata.type === 'artist' ? relationship : `${relationship},${relationship}.artists`;
+      const document = await tidalGet(
+        `/searchResults/${encodeURIComponent(searchQuery)}`,
+        { include, countryCode }
+      );
+
+      const searchResult = Array.isArray(document.data) ? document.data[0] : document.data;
+      const results = searchResult ? getRelated(searchResult, relationship, document.included) : [];
+      if (results.length === 0) {
+        console.log('No results found for query:', searchQuery);
+        continue;
+      }
+
+      const scored = results.map(resource => {
+        const metadata = mapTidalResource(sourceMetadata.type, resource, document.included);
+        addCandidate(candidates, buildTidalUrl(sourceMetadata.type, resource.id), metadata);
+        return { id: resource.id, metadata, score: calculateMatchConfidence(sourceMetadata, metadata) };
+      });
+      scored.sort((a, b) => b.score - a.score);
+
+      if (!bestMatchSoFar || scored[0].score > bestMatchSoFar.score) {
+        bestMatchSoFar = scored[0];
+      }
+
+      // If we have a very good match, use it immediately
+      if (scored[0].score >= 85) {
+        break;
+      }
+    } catch (error: any) {
+      console.error('Tidal search error:', {
+        message: error.message,
+        response: error.response?.data,
+        status: error.response?.status,
+        query: searchQuery
+      });
+      // Tidal keeps failing, so the remaining queries would too
+      if (error instanceof CircuitOpenError) throw error;
+      lastError = error;
+    }
+  }
+
+  if (bestMatchSoFar && bestMatchSoFar.score >= 50) {
+    const tidalUrl = buildTidalUrl(sourceMetadata.type, bestMatchSoFar.id);
+    return {
+      tidalUrl,
+      metadata: bestMatchSoFar.metadata,
+      alternatives: getAlternatives(candidates, tidalUrl)
+    };
+  }
+
+  throw lastError || new NoMatchError(`No matching ${sourceMetadata.type} found on Tidal`);
+}
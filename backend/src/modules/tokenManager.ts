@@ -0,0 +1,82 @@
+// Tokens are refreshed this long before they expire, so a request sent just
+// before expiry doesn't arrive with a stale token
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * An access token as issued by a service.
+ */
+export interface IssuedToken {
+  token: string;
+  /** Seconds until the token expires */
+  expiresIn: number;
+}
+
+/**
+ * Hands out one service's access token, fetching a new one only when the
+ * cached one is missing, about to expire or rejected.
+ */
+export interface TokenManager {
+  /** Returns the cached token, refreshing it first when it's about to expire. */
+  getToken(): Promise<string>;
+  /**
+   * Runs a request with the current token. A request rejected with a 401 is
+   * retried once with a freshly fetched token.
+   */
+  withToken<T>(request: (token: string) => Promise<T>): Promise<T>;
+}
+
+/**
+ * Creates a token manager for one service.
+ *
+ * Concurrent callers share a single refresh, so a burst of requests (e.g. a
+ * playlist conversion) fetches one token rather than one each.
+ *
+ * @param fetchToken - Requests a new token from the service.
+ * @returns The token manager.
+ */
+export function createTokenManager(fetchToken: () => Promise<IssuedToken>): TokenManager {
+  let current: { token: string; expiresAt: number } | null = null;
+  let refreshing: Promise<string> | null = null;
+
+  function refresh(): Promise<string> {
+    if (!refreshing) {
+      refreshing = fetchToken()
+        .then(({ token, expiresIn }) => {
+          current = { token, expiresAt: Date.now() + expiresIn * 1000 - TOKEN_REFRESH_MARGIN_MS };
+          return token;
+        })
+        .finally(() => {
+          refreshing = null;
+        });
+    }
+
+    return refreshing;
+  }
+
+  async function getToken(): Promise<string> {
+    if (current && current.expiresAt > Date.now()) {
+      return current.token;
+    }
+
+    return refresh();
+  }
+
+  async function withToken<T>(request: (token: string) => Promise<T>): Promise<T> {
+    const token = await getToken();
+
+    try {
+      return await request(token);
+    } catch (error: any) {
+      if (error.response?.status !== 401) throw error;
+
+      // Only the first request to see the token rejected drops it; the
+      // others wait for the refresh that one started
+      if (current?.token === token) {
+        current = null;
+      }
+      return request(await getToken());
+    }
+  }
+
+  return { getToken, withToken };
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from '@jest/globals';
+import { foldKana, transliterate } from './transliteration';
+
+describe('foldKana', () => {
+  it('folds hiragana to katakana', () => {
+    expect(foldKana('ひらがな')).toBe('ヒラガナ');
+  });
+});
+
+describe('transliterate', () => {
+  it('romanizes Hangul syllables', () => {
+    expect(transliterate('아이유')).toBe('aiyu');
+    expect(transliterate('방탄소년단')).toBe('bangtansonyeondan');
+  });
+
+  it('romanizes hiragana and katakana', () => {
+    expect(transliterate('とうきょう')).toBe('toukyou');
+    expect(transliterate('サクラ')).toBe('sakura');
+  });
+
+  it('doubles consonants after a small tsu and drops long vowel marks', () => {
+    expect(transliterate('ちょっと')).toBe('chotto');
+    expect(transliterate('ラーメン')).toBe('ramen');
+  });
+
+  it('romanizes Cyrillic', () => {
+    expect(transliterate('Кино')).toBe('kino');
+  });
+
+  it('leaves Han characters as they are', () => {
+    expect(transliterate('東京')).toBe('東京');
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Romanization for the scripts our users' links most often differ in
+ * between services (Korean, Japanese kana, Cyrillic, Greek), so that e.g.
+ * "아이유" and "Aiyu" or "Кино" and "Kino" can be compared. Han characters
+ * have no reading without a dictionary and are left as they are.
+ */
+
+// Revised Romanization of Korean, per jamo position within a syllable
+const HANGUL_INITIALS = ['g', 'kk', 'n', 'd', 'tt', 'r', 'm', 'b', 'pp', 's', 'ss', '', 'j', 'jj', 'ch', 'k', 't', 'p', 'h'];
+const HANGUL_MEDIALS = ['a', 'ae', 'ya', 'yae', 'eo', 'e', 'yeo', 'ye', 'o', 'wa', 'wae', 'oe', 'yo', 'u', 'wo', 'we', 'wi', 'yu', 'eu', 'ui', 'i'];
+const HANGUL_FINALS = ['', 'k', 'k', 'k', 'n', 'n', 'n', 't', 'l', 'k', 'm', 'l', 'l', 'l', 'p', 'l', 'm', 'p', 'p', 't', 't', 'ng', 't', 't', 'k', 't', 'p', 't'];
+const HANGUL_FIRST_SYLLABLE = 0xAC00;
+const HANGUL_LAST_SYLLABLE = 0xD7A3;
+
+// Modified Hepburn romanization of katakana (hiragana is folded to katakana first)
+const KATAKANA: Record<string, string> = {
+  'ア': 'a', 'イ': 'i', 'ウ': 'u', 'エ': 'e', 'オ': 'o',
+  'カ': 'ka', 'キ': 'ki', 'ク': 'ku', 'ケ': 'ke', 'コ': 'ko',
+  'ガ': 'ga', 'ギ': 'gi', 'グ': 'gu', 'ゲ': 'ge', 'ゴ': 'go',
+  'サ': 'sa', 'シ': 'shi', 'ス': 'su', 'セ': 'se', 'ソ': 'so',
+  'ザ': 'za', 'ジ': 'ji', 'ズ': 'zu', 'ゼ': 'ze', 'ゾ': 'zo',
+  'タ': 'ta', 'チ': 'chi', 'ツ': 'tsu', 'テ': 'te', 'ト': 'to',
+  'ダ': 'da', 'ヂ': 'ji', 'ヅ': 'zu', 'デ': 'de', 'ド': 'do',
+  'ナ': 'na', 'ニ': 'ni', 'ヌ': 'nu', 'ネ': 'ne', 'ノ': 'no',
+  'ハ': 'ha', 'ヒ': 'hi', 'フ': 'fu', 'ヘ': 'he', 'ホ': 'ho',
+  'バ': 'ba', 'ビ': 'bi', 'ブ': 'bu', 'ベ': 'be', 'ボ': 'bo',
+  'パ': 'pa', 'ピ': 'pi', 'プ': 'pu', 'ペ': 'pe', 'ポ': 'po',
+  'マ': 'ma', 'ミ': 'mi', 'ム': 'mu', 'メ': 'me', 'モ': 'mo',
+  'ヤ': 'ya', 'ユ': 'yu', 'ヨ': 'yo',
+  'ラ': 'ra', 'リ': 'ri', 'ル': 'ru', 'レ': 're', 'ロ': 'ro',
+  'ワ': 'wa', 'ヲ': 'o', 'ン': 'n', 'ヴ': 'vu',
+  'ァ': 'a', 'ィ': 'i', 'ゥ': 'u', 'ェ': 'e', 'ォ': 'o'
+};
+const SMALL_Y_KANA: Record<string, string> = { 'ャ': 'a', 'ュ': 'u', 'ョ': 'o' };
+const SOKUON = 'ッ';
+const CHOONPU = 'ー';
+
+// Russian, Ukrainian and Greek letters (lowercase)
+const ALPHABETS: Record<string, string> = {
+  'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'д': 'd', 'е': 'e', 'ё': 'yo', 'ж': 'zh',
+  'з': 'z', 'и': 'i', 'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o',
+  'п': 'p', 'р': 'r', 'с': 's', 'т': 't', 'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts',
+  'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ъ': '', 'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'yu',
+  'я': 'ya', 'і': 'i', 'ї': 'yi', 'є': 'ye', 'ґ': 'g',
+  'α': 'a', 'β': 'v', 'γ': 'g', 'δ': 'd', 'ε': 'e', 'ζ': 'z', 'η': 'i', 'θ': 'th',
+  'ι': 'i', 'κ': 'k', 'λ': 'l', 'μ': 'm', 'ν': 'n', 'ξ': 'x', 'ο': 'o', 'π': 'p',
+  'ρ': 'r', 'σ': 's', 'ς': 's', 'τ': 't', 'υ': 'y', 'φ': 'f', 'χ': 'ch', 'ψ': 'ps',
+  'ω': 'o'
+};
+
+/**
+ * Folds hiragana to the equivalent katakana, which sit 0x60 code points apart
+ */
+export function foldKana(text: string): string {
+  return text.replace(/[ぁ-ゖ]/g, char => String.fromCharCode(char.charCodeAt(0) + 0x60));
+}
+
+/**
+ * Romanizes a single Hangul syllable block
+ */
+function romanizeHangulSyllable(char: string): string {
+  const index = char.charCodeAt(0) - HANGUL_FIRST_SYLLABLE;
+  const initial = Math.floor(index / (21 * 28));
+  const medial = Math.floor((index % (21 * 28)) / 28);
+  const final = index % 28;
+  return HANGUL_INITIALS[initial] + HANGUL_MEDIALS[medial] + HANGUL_FINALS[final];
+}
+
+/**
+ * Romanizes katakana, handling contracted sounds (キャ -> kya), doubled
+ * consonants (ッ) and dropping long vowel marks (ー).
+ */
+function romanizeKatakana(text: string): string {
+  const chars = [...text];
+  let result = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+
+    if (char === CHOONPU) continue;
+
+    if (char === SOKUON) {
+      // Double the first consonant of the next syllable
+      const next = KATAKANA[chars[i + 1]] || '';
+      result += next.startsWith('ch') ? 't' : next.charAt(0);
+      continue;
+    }
+
+    let romaji = KATAKANA[char];
+    if (romaji === undefined) {
+      result += char;
+      continue;
+    }
+
+    const smallY = SMALL_Y_KANA[chars[i + 1]];
+    if (smallY && romaji.endsWith('i')) {
+      const base = romaji.slice(0, -1);
+      romaji = ['sh', 'ch', 'j'].includes(base) ? base + smallY : `${base}y${smallY}`;
+      i++;
+    }
+
+    result += romaji;
+  }
+
+  return result;
+}
+
+/**
+ * Romanizes Hangul, kana, Cyrillic and Greek text. Anything else (Latin,
+ * Han, digits, punctuation) is passed through unchanged.
+ *
+ * @param text - The text to romanize.
+ * @returns The romanized text, lowercased.
+ */
+export function transliterate(text: string): string {
+  const withoutHangul = [...text.toLowerCase()]
+    .map(char => {
+      const code = char.charCodeAt(0);
+      if (code >= HANGUL_FIRST_SYLLABLE && code <= HANGUL_LAST_SYLLABLE) {
+        return romanizeHangulSyllable(char);
+      }
+      return ALPHABETS[char] ?? char;
+    })
+    .join('');
+
+  return romanizeKatakana(foldKana(withoutHangul));
+}
@@ -0,0 +1,413 @@
+import { DetailedMetadata } from './metadataExtraction';
+import { addCandidate, getAlternatives, SearchCandidate, SearchCandidates } from './searchAlternatives';
+import { cleanText, removeFeaturingArtists } from './textNormalization';
+import { YouTubeMusicMetadata } from './linkConversion';
+import { calculateMatchConfidence } from './matchConfidence';
+import { ContentNotFoundError, CredentialsMissingError, NoMatchError } from './errors';
+import { CircuitOpenError, createHttpClient } from './httpClient';
+import { getSecret } from './secrets';
+import { parseIsoDuration } from './duration';
+
+// Shared by every YouTube Data API request, so they retry and trip the circuit together
+const youtubeHttp = createHttpClient('YouTube');
+
+const YOUTUBE_API_URL = 'https://www.googleapis.com/youtube/v3';
+
+// The YouTube "Music" video category, used to keep search results to songs
+const MUSIC_CATEGORY_ID = '10';
+
+interface YouTubeMusicSearchResult {
+  youtubeMusicUrl: string;
+  metadata: DetailedMetadata;
+  /** Other results the search considered, for picking a different match */
+  alternatives?: SearchCandidate[];
+}
+
+/**
+ * A search candidate together with its YouTube ID and mapped metadata.
+ */
+interface YouTubeCandidate {
+  id: string;
+  metadata: DetailedMetadata;
+  isTopicChannel: boolean;
+}
+
+/**
+ * Retrieves the YouTube Data API key used for all YouTube Music requests.
+ */
+async function getYouTubeApiKey(): Promise<string> {
+  const apiKey = process.env.YOUTUBE_API_KEY || await getSecret('youtube-api-key');
+
+  if (!apiKey) {
+    throw new CredentialsMissingError('YouTube API credentials missing');
+  }
+
+  return apiKey;
+}
+
+/**
+ * Builds the YouTube Music URL for a piece of content.
+ */
+export function buildYouTubeMusicUrl(type: DetailedMetadata['type'], id: string): string {
+  switch (type) {
+    case 'track':
+      return `https://music.youtube.com/watch?v=${id}`;
+    case 'album':
+      return `https://music.youtube.com/playlist?list=${id}`;
+    case 'artist':
+      return `https://music.youtube.com/channel/${id}`;
+  }
+}
+
+/**
+ * Removes the " - Topic" and "VEVO" decorations YouTube adds to artist channels
+ */
+function cleanChannelTitle(channelTitle: string): string {
+  return channelTitle
+    .replace(/\s+-\s+Topic$/i, '')
+    .replace(/VEVO$/, '')
+    .trim();
+}
+
+/**
+ * Strips video decorations like "(Official Video)" from a title
+ */
+function stripVideoDecorations(title: string): string {
+  return title
+    .replace(/[\(\[][^\)\]]*(?:official|lyric|lyrics|audio|video|visualizer|visualiser|mv|hd|4k)[^\)\]]*[\)\]]/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Picks the largest available thumbnail
+ */
+function getThumbnailUrl(thumbnails?: Record<string, { url: string }>): string | undefined {
+  if (!thumbnails) return undefined;
+  return (thumbnails.maxres || thumbnails.high || thumbnails.medium || thumbnails.default)?.url;
+}
+
+/**
+ * Maps a YouTube video resource to our metadata format.
+ *
+ * Auto-generated "Artist - Topic" uploads carry structured information in
+ * their description ("Title · Artist · Artist", album name, release date),
+ * so those are parsed first. Regular music videos fall back to the common
+ * "Artist - Title (Official Video)" naming convention.
+ */
+function mapYouTubeVideo(video: any): YouTubeCandidate {
+  const snippet = video.snippet || {};
+  const channelTitle: string = snippet.channelTitle || '';
+  const isTopicChannel = /\s+-\s+Topic$/i.test(channelTitle);
+
+  let title: string = snippet.title || '';
+  let artist = cleanChannelTitle(channelTitle);
+  let album: string | undefined;
+  let releaseDate: string | undefined;
+
+  if (isTopicChannel && snippet.description) {
+    const lines = (snippet.description as string).split('\n').map(line => line.trim()).filter(Boolean);
+    const creditIndex = lines.findIndex(line => line.includes(' · '));
+    if (creditIndex !== -1) {
+      const [creditTitle, ...creditArtists] = lines[creditIndex].split(' · ');
+      title = creditTitle;
+      if (creditArtists.length > 0) {
+        artist = creditArtists.join(', ');
+      }
+
+      const albumLine = lines[creditIndex + 1];
+      if (albumLine && !albumLine.startsWith('℗')) {
+        album = albumLine;
+      }
+    }
+
+    const released = lines.find(line => line.startsWith('Released on:'));
+    releaseDate = released?.replace('Released on:', '').trim();
+  } else if (!isTopicChannel) {
+    const separatorIndex = title.indexOf(' - ');
+    if (separatorIndex !== -1) {
+      artist = title.slice(0, separatorIndex).trim();
+      title = title.slice(separatorIndex + 3);
+    }
+    title = stripVideoDecorations(title);
+  }
+
+  return {
+    id: video.id?.videoId || video.id,
+    isTopicChannel,
+    metadata: {
+      type: 'track',
+      title,
+      artist,
+      album,
+      artworkUrl: getThumbnailUrl(snippet.thumbnails),
+      releaseDate: releaseDate || snippet.publishedAt,
+      duration: parseIsoDuration(video.contentDetails?.duration)
+    }
+  };
+}
+
+/**
+ * Maps a YouTube playlist resource (an auto-generated album) to our metadata format
+ */
+function mapYouTubePlaylist(playlist: any): YouTubeCandidate {
+  const snippet = playlist.snippet || {};
+  const channelTitle: string = snippet.channelTitle || '';
+
+  return {
+    id: playlist.id?.playlistId || playlist.id,
+    isTopicChannel: /\s+-\s+Topic$/i.test(channelTitle),
+    metadata: {
+      type: 'album',
+      title: (snippet.title || '').replace(/^Album\s+-\s+/i, ''),
+      artist: cleanChannelTitle(channelTitle),
+      artworkUrl: getThumbnailUrl(snippet.thumbnails),
+      releaseDate: snippet.publishedAt,
+      totalTracks: playlist.contentDetails?.itemCount
+    }
+  };
+}
+
+/**
+ * Maps a YouTube channel resource to our metadata format
+ */
+function mapYouTubeChannel(channel: any): YouTubeCandidate {
+  const snippet = channel.snippet || {};
+  const channelTitle: string = snippet.channelTitle || snippet.title || '';
+
+  return {
+    id: channel.id?.channelId || channel.id,
+    isTopicChannel: /\s+-\s+Topic$/i.test(channelTitle),
+    metadata: {
+      type: 'artist',
+      title: cleanChannelTitle(channelTitle),
+      artist: cleanChannelTitle(channelTitle),
+      artworkUrl: getThumbnailUrl(snippet.thumbnails)
+    }
+  };
+}
+
+/**
+ * Gets detailed metadata from YouTube for a given track/album/artist.
+ *
+ * @param youtubeData - The parsed YouTube Music metadata.
+ * @returns Detailed metadata about the content.
+ */
+export async function getYouTubeMusicDetailedMetadata(youtubeData: YouTubeMusicMetadata): Promise<DetailedMetadata> {
+  const key = await getYouTubeApiKey();
+
+  const resource = youtubeData.type === 'track' ? 'videos' :
+                   youtubeData.type === 'album' ? 'playlists' :
+                   'channels';
+
+  const response = await youtubeHttp.get(`${YOUTUBE_API_URL}/${resource}`, {
+    params: {
+      part: 'snippet,contentDetails',
+      id: youtubeData.id,
+      key
+    }
+  });
+
+  const item = response.data.items?.[0];
+  if (!item) {
+    throw new ContentNotFoundError('No metadata found for the provided YouTube Music link');
+  }
+
+  const candidate = youtubeData.type === 'track' ? mapYouTubeVideo(item) :
+                    youtubeData.type === 'album' ? mapYouTubePlaylist(item) :
+                    mapYouTubeChannel(item);
+
+  if (youtubeData.type === 'album') {
+    candidate.metadata.tracks = await getYouTubeAlbumTracks(youtubeData.id, key);
+  }
+
+  return candidate.metadata;
+}
+
+/**
+ * Fetches the tracks of an auto-generated album playlist. Playlist items
+ * carry no duration, so the videos are fetched in batches of 50 as well.
+ */
+async function getYouTubeAlbumTracks(playlistId: string, key: string): Promise<DetailedMetadata[]> {
+  const videoIds: string[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const response = await youtubeHttp.get(`${YOUTUBE_API_URL}/playlistItems`, {
+      params: {
+        part: 'contentDetails',
+        playlistId,
+        maxResults: 50,
+        pageToken,
+        key
+      }
+    });
+
+    for (const item of response.data.items || []) {
+      if (item.contentDetails?.videoId) {
+        videoIds.push(item.contentDetails.videoId);
+      }
+    }
+    pageToken = response.data.nextPageToken;
+  } while (pageToken);
+
+  const tracks: DetailedMetadata[] = [];
+  for (let i = 0; i < videoIds.length; i += 50) {
+    const response = await youtubeHttp.get(`${YOUTUBE_API_URL}/videos`, {
+      params: {
+        part: 'snippet,contentDetails',
+        id: videoIds.slice(i, i + 50).join(','),
+        key
+      }
+    });
+
+    for (const video of response.data.items || []) {
+      tracks.push(mapYouTubeVideo(video).metadata);
+    }
+  }
+
+  return tracks.map((track, index) => ({ ...track, trackNumber: index + 1 }));
+}
+
+/**
+ * Generates multiple search queries with different variations
+ */
+function generateSearchQueries(metadata: DetailedMetadata): string[] {
+  const artist = cleanText(metadata.artist);
+
+  if (metadata.type === 'artist') {
+    return [artist, `${artist} topic`];
+  }
+
+  const title = cleanText(metadata.title);
+  const cleanTitle = cleanText(removeFeaturingArtists(metadata.title));
+
+  const queries = [`${title} ${artist}`];
+  if (cleanTitle !== title) {
+    queries.push(`${cleanTitle} ${artist}`);
+  }
+  if (metadata.type === 'album') {
+    queries.push(`album ${cleanTitle} ${artist}`);
+  }
+  if (metadata.type === 'track' && metadata.album) {
+    queries.push(`${cleanTitle} ${artist} ${cleanText(metadata.album)}`);
+  }
+
+  return [...new Set(queries)];
+}
+
+/**
+ * Runs a single search query and returns fully mapped candidates.
+ *
+ * Search results only include a truncated snippet, so video candidates are
+ * re-fetched in one batch to get their full descriptions and durations.
+ */
+async function searchCandidates(
+  query: string,
+  type: DetailedMetadata['type'],
+  key: string
+): Promise<YouTubeCandidate[]> {
+  const searchType = type === 'track' ? 'video' : type === 'album' ? 'playlist' : 'channel';
+
+  const response = await youtubeHttp.get(`${YOUTUBE_API_URL}/search`, {
+    params: {
+      part: 'snippet',
+      q: query,
+      type: searchType,
+      ...(searchType === 'video' ? { videoCategoryId: MUSIC_CATEGORY_ID } : {}),
+      maxResults: 10,
+      key
+    }
+  });
+
+  const items: any[] = response.data.items || [];
+  if (items.length === 0) return [];
+
+  if (type === 'album') {
+    // Only auto-generated album playlists can be opened as albums in YouTube Music
+    return items
+      .filter(item => item.id?.playlistId?.startsWith('OLAK5uy_'))
+      .map(mapYouTubePlaylist);
+  }
+
+  if (type === 'artist') {
+    return items.map(mapYouTubeChannel);
+  }
+
+  const videos = await youtubeHttp.get(`${YOUTUBE_API_URL}/videos`, {
+    params: {
+      part: 'snippet,contentDetails',
+      id: items.map(item => item.id.videoId).join(','),
+      key
+    }
+  });
+
+  return (videos.data.items || []).map(mapYouTubeVideo);
+}
+
+/**
+ * Searches for content on YouTube Music using multiple search strategies
+ */
+export async function searchYouTubeMusicContent(
+  sourceMetadata: DetailedMetadata
+): Promise<YouTubeMusicSearchResult> {
+  const key = await getYouTubeApiKey();
+  const queries = generateSearchQueries(sourceMetadata);
+  const allCandidates: SearchCandidates = new Map();
+  let lastError: Error | null = null;
+  let bestMatchSoFar: { candidate: YouTubeCandidate; score: number } | null = null;
+
+  for (const searchQuery of queries) {
+    try {
+      console.log('Trying YouTube Music search query:', searchQuery);
+
+      const candidates = await searchCandidates(searchQuery, sourceMetadata.type, key);
+      if (candidates.length === 0) {
+        console.log('No results found for query:', searchQuery);
+        continue;
+      }
+
+      // Score each result, preferring the official "Artist - Topic" uploads
+      // since those are what YouTube Music plays as the album version
+      const scored = candidates.map(candidate => {
+        addCandidate(allCandidates, buildYouTubeMusicUrl(sourceMetadata.type, candidate.id), candidate.metadata);
+        return {
+          candidate,
+          score: calculateMatchConfidence(sourceMetadata, candidate.metadata) + (candidate.isTopicChannel ? 5 : 0)
+        };
+      });
+      scored.sort((a, b) => b.score - a.score);
+
+      if (!bestMatchSoFar || scored[0].score > bestMatchSoFar.score) {
+        bestMatchSoFar = scored[0];
+      }
+
+      // If we have a very good match, use it immediately
+      if (scored[0].score >= 85) {
+        break;
+      }
+    } catch (error: any) {
+      console.error('YouTube Music search error:', {
+        message: error.message,
+        response: error.response?.data,
+        status: error.response?.status,
+        query: searchQuery
+      });
+      // YouTube keeps failing, so the remaining queries would too
+      if (error instanceof CircuitOpenError) throw error;
+      lastError = error;
+    }
+  }
+
+  if (bestMatchSoFar && bestMatchSoFar.score >= 50) {
+    const { candidate } = bestMatchSoFar;
+    const youtubeMusicUrl = buildYouTubeMusicUrl(sourceMetadata.type, candidate.id);
+    return {
+      youtubeMusicUrl,
+      metadata: candidate.metadata,
+      alternatives: getAlternatives(allCandidates, youtubeMusicUrl)
+    };
+  }
+
+  throw lastError || new NoMatchError(`No matching ${sourceMetadata.type} found on YouTube Music`);
+}
@@ -1,9 +1,22 @@
 import React, { useState, useEffect } from 'react';
-import { ConversionResponse, ApiError } from '../types';
+import {
+  ConversionResponse,
+  TrackConversionResponse,
+  PlaylistConversionResponse,
+  ProviderInfo,
+  UniversalLinksResponse,
+  ApiError,
+  ErrorCode,
+  AlbumTrackComparison,
+  ConfidenceBreakdown,
+  CorrectionResponse,
+  RankedAlternative,
+  AvailabilityReport
+} from '../types';
 import Cookies from 'js-cookie';
 import { motion, AnimatePresence as OriginalAnimatePresence, LazyMotion, domAnimation } from 'framer-motion';
 import type { AnimatePresenceProps } from 'framer-motion';
-import { SpotifyIcon, AppleMusicIcon } from './icons';
+import { SpotifyIcon, AppleMusicIcon, YouTubeMusicIcon, DeezerIcon, TidalIcon, MusicNoteIcon } from './icons';
 
 // Define an extended interface that includes children
 interface ExtendedAnimatePresenceProps extends AnimatePresenceProps {
@@ -19,7 +32,7 @@ const AnimatePresence: React.FC<ExtendedAnimatePresenceProps> = (props) => {
 
 type HistoryItem = {
   timestamp: number;
-} & ConversionResponse;
+} & TrackConversionResponse;
 
 interface ConversionMetadata {
   title: string;
@@ -28,7 +41,7 @@ interface ConversionMetadata {
   artworkUrl?: string;
   url: string;
   icon: JSX.Element;
-  service: "Spotify" | "Apple Music";
+  service: string;
   buttonColor: string;
   brandColor: string;
   releaseDate?: string;
@@ -43,64 +56,85 @@ interface ConversionMetadata {
 }
 
 // Type guard functions to help TypeScript narrow the types
-function isAppleToSpotify(item: ConversionResponse | HistoryItem): item is (typeof item & { conversionDirection: "apple-to-spotify" }) {
-  return item.conversionDirection === "apple-to-spotify";
+function isPlaylistConversion(item: ConversionResponse): item is PlaylistConversionResponse {
+  return 'mode' in item && item.mode === "playlist";
 }
 
-// Helper function to get metadata based on conversion direction
-function getMetadata(item: ConversionResponse | HistoryItem): ConversionMetadata | null {
+const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:3000';
+
+// Friendlier messages for failures the user can't fix by editing the link.
+// Other codes keep the server's message, which says what's wrong with it.
+const ERROR_MESSAGES: Partial<Record<ErrorCode, string>> = {
+  content_not_found: "We couldn't find that song, album or artist. The link may be broken or the content removed.",
+  no_match: "We couldn't find a match on the other service. It may not be available there.",
+  upstream_rate_limited: 'The music service is busy right now. Please wait a moment and try again.',
+  upstream_unavailable: "The music service isn't responding right now. Please try again in a few minutes.",
+  upstream_error: 'The music service returned an unexpected error. Please try again.',
+  credentials_missing: "This service isn't set up on the server. Try converting to a different service.",
+  internal_error: 'Something went wrong on our end. Please try again.'
+};
+
+// Picks the message to show for a failed request
+function getErrorMessage(errorData: ApiError, fallback: string): string {
+  return (errorData.code && ERROR_MESSAGES[errorData.code]) || errorData.error || fallback;
+}
+
+interface ProviderBranding {
+  brandColor: string;
+  Icon: React.FC<{ className?: string }>;
+}
+
+// Branding for known providers; any other registered provider falls back to the default
+const PROVIDER_BRANDING: Record<string, ProviderBranding> = {
+  spotify: { brandColor: "#1DB954", Icon: SpotifyIcon },
+  "apple-music": { brandColor: "#fa586a", Icon: AppleMusicIcon },
+  "youtube-music": { brandColor: "#ff0000", Icon: YouTubeMusicIcon },
+  deezer: { brandColor: "#a238ff", Icon: DeezerIcon },
+  tidal: { brandColor: "#33ffee", Icon: TidalIcon },
+};
+
+// Pseudo-target that asks for matches on every provider at once
+const ALL_PROVIDERS = "all";
+
+const DEFAULT_BRANDING: ProviderBranding = { brandColor: "#9d8cff", Icon: MusicNoteIcon };
+
+// Helper function to get a provider's display name and branding
+function getProviderDisplay(providerId: string, providers: ProviderInfo[]): ProviderBranding & { name: string } {
+  const provider = providers.find(p => p.id === providerId);
+  return {
+    name: provider?.name || providerId,
+    ...(PROVIDER_BRANDING[providerId] || DEFAULT_BRANDING),
+  };
+}
+
+// Helper function to get metadata for the target side of a conversion
+function getMetadata(item: TrackConversionResponse | HistoryItem, providers: ProviderInfo[]): ConversionMetadata | null {
   try {
-    if (!item) return null;
-
-    if (isAppleToSpotify(item)) {
-      const spotifyData = item.spotifyResult;
-      if (!spotifyData || !spotifyData.metadata) return null;
-      
-      return {
-        title: spotifyData.metadata.title || 'Unknown Title',
-        artist: spotifyData.metadata.artist || 'Unknown Artist',
-        album: spotifyData.metadata.album,
-        artworkUrl: spotifyData.metadata.artworkUrl,
-        url: spotifyData.spotifyUrl,
-        icon: <SpotifyIcon className="text-white h-6 w-6" />,
-        releaseDate: spotifyData.metadata.releaseDate,
-        genres: spotifyData.metadata.genres,
-        service: "Spotify",
-        buttonColor: "#1DB954",
-        brandColor: "#1DB954",
-        type: spotifyData.metadata.type,
-        trackNumber: spotifyData.metadata.trackNumber,
-        totalTracks: spotifyData.metadata.totalTracks,
-        discNumber: spotifyData.metadata.discNumber,
-        duration: spotifyData.metadata.duration,
-        popularity: spotifyData.metadata.popularity,
-        previewUrl: spotifyData.metadata.previewUrl,
-      };
-    } else {
-      const appleData = item.appleMusicResult;
-      if (!appleData || !appleData.metadata) return null;
-      
-      return {
-        title: appleData.metadata.title || 'Unknown Title',
-        artist: appleData.metadata.artist || 'Unknown Artist',
-        album: appleData.metadata.album,
-        artworkUrl: appleData.metadata.artworkUrl,
-        url: appleData.appleMusicUrl,
-        icon: <AppleMusicIcon className="text-white h-6 w-6" />,
-        releaseDate: appleData.metadata.releaseDate,
-        genres: appleData.metadata.genres,
-        service: "Apple Music",
-        buttonColor: "#fa586a",
-        brandColor: "#fa586a",
-        type: appleData.metadata.type,
-        trackNumber: appleData.metadata.trackNumber,
-        totalTracks: appleData.metadata.totalTracks,
-        discNumber: appleData.metadata.discNumber,
-        duration: appleData.metadata.duration,
-        popularity: appleData.metadata.popularity,
-        previewUrl: appleData.metadata.previewUrl,
-      };
-    }
+    if (!item || !item.target || !item.target.metadata) return null;
+
+    const { provider, url, metadata } = item.target;
+    const { name, brandColor, Icon } = getProviderDisplay(provider, providers);
+
+    return {
+      title: metadata.title || 'Unknown Title',
+      artist: metadata.artist || 'Unknown Artist',
+      album: metadata.album,
+      artworkUrl: metadata.artworkUrl,
+      url,
+      icon: <Icon className="text-white h-6 w-6" />,
+      releaseDate: metadata.releaseDate,
+      genres: metadata.genres,
+      service: name,
+      buttonColor: brandColor,
+      brandColor,
+      type: metadata.type,
+      trackNumber: metadata.trackNumber,
+      totalTracks: metadata.totalTracks,
+      discNumber: metadata.discNumber,
+      duration: metadata.duration,
+      popularity: metadata.popularity,
+      previewUrl: metadata.previewUrl,
+    };
   } catch (error) {
     console.error('Error extracting metadata:', error);
     return null;
@@ -111,16 +145,34 @@ export const LinkConverter: React.FC = () => {
   const [inputLink, setInputLink] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<ConversionResponse | null>(null);
+  const [linksResult, setLinksResult] = useState<UniversalLinksResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [copySuccess, setCopySuccess] = useState(false);
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [historyCopySuccess, setHistoryCopySuccess] = useState<{ [key: number]: boolean }>({});
   const [expandedCard, setExpandedCard] = useState<number | null>(null);
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [selectedTarget, setSelectedTarget] = useState<string | null>(null);
+  const [showBreakdown, setShowBreakdown] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
+  const [correctLink, setCorrectLink] = useState('');
+  const [reportStatus, setReportStatus] = useState<'idle' | 'submitting' | 'done'>('idle');
+  const [reportError, setReportError] = useState<string | null>(null);
+  const [availability, setAvailability] = useState<{ url: string; report: AvailabilityReport } | null>(null);
+  const [availabilityStatus, setAvailabilityStatus] = useState<'idle' | 'checking' | 'error'>('idle');
   const [isHoverable] = useState(() => {
     // Check if the device supports hover
     return window.matchMedia('(hover: hover)').matches;
   });
 
+  // Load the registered providers on component mount
+  useEffect(() => {
+    fetch(`${API_URL}/providers`)
+      .then(response => response.json())
+      .then((data: ProviderInfo[]) => setProviders(data))
+      .catch(e => console.error('Failed to load providers:', e));
+  }, []);
+
   // Load history from cookies on component mount
   useEffect(() => {
     const savedHistory = Cookies.get('conversionHistory');
@@ -132,8 +184,9 @@ export const LinkConverter: React.FC = () => {
           const validHistory = parsedHistory.filter(item => 
             item && 
             item.timestamp && 
-            item.conversionDirection && 
-            (item.spotifyResult || item.appleMusicResult)
+            item.source &&
+            item.target &&
+            item.target.url
           );
           setHistory(validHistory);
         }
@@ -168,23 +221,32 @@ export const LinkConverter: React.FC = () => {
   }, [history]);
 
   // Helper to detect link type
-  const detectLinkType = (link: string): "apple" | "spotify" | "unknown" => {
-    if (link.includes("music.apple.com")) return "apple";
-    if (link.includes("open.spotify.com")) return "spotify";
-    return "unknown";
+  const detectLinkType = (link: string): ProviderInfo | null => {
+    return providers.find(provider =>
+      [...provider.hosts, ...provider.shortLinkHosts].some(host => link.includes(host))
+    ) || null;
   };
 
   const linkType = detectLinkType(inputLink);
 
+  // The selected target only applies while it differs from the link's own provider;
+  // otherwise fall back to the first other provider, like the backend does
+  const targetProvider: ProviderInfo | null = !linkType
+    ? null
+    : providers.find(provider => provider.id === selectedTarget && provider.id !== linkType.id)
+      || providers.find(provider => provider.id !== linkType.id)
+      || null;
+
+  const isAllProviders = selectedTarget === ALL_PROVIDERS;
+
   const getHeaderText = () => {
-    switch (linkType) {
-      case "apple":
-        return "Convert Apple Music to Spotify";
-      case "spotify":
-        return "Convert Spotify to Apple Music";
-      default:
-        return "Music Link Converter";
+    if (!linkType || !targetProvider) {
+      return "Music Link Converter";
+    }
+    if (isAllProviders) {
+      return `Convert ${linkType.name} to every platform`;
     }
+    return `Convert ${linkType.name} to ${targetProvider.name}`;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -192,23 +254,55 @@ export const LinkConverter: React.FC = () => {
     setIsLoading(true);
     setError(null);
     setResult(null);
+    setShowBreakdown(false);
+    setIsReporting(false);
+    setCorrectLink('');
+    setReportStatus('idle');
+    setReportError(null);
+    setAvailability(null);
+    setAvailabilityStatus('idle');
+    setLinksResult(null);
 
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_API_URL || 'http://localhost:3000'}/convert?link=${encodeURIComponent(inputLink)}`
-      );
+      if (isAllProviders) {
+        const response = await fetch(`${API_URL}/links?${new URLSearchParams({ link: inputLink }).toString()}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          const errorData = data as ApiError;
+          throw new Error(getErrorMessage(errorData, 'Failed to convert link'));
+        }
+
+        setLinksResult(data as UniversalLinksResponse);
+        return;
+      }
+
+      const params = new URLSearchParams({ link: inputLink });
+      if (targetProvider) {
+        params.set('target', targetProvider.id);
+      }
+      const response = await fetch(`${API_URL}/convert?${params.toString()}`);
       const data = await response.json();
 
       if (!response.ok) {
         const errorData = data as ApiError;
-        throw new Error(errorData.error || 'Failed to convert link');
+        throw new Error(getErrorMessage(errorData, 'Failed to convert link'));
       }
 
       const conversionResult = data as ConversionResponse;
       setResult(conversionResult);
 
+      // Playlist reports are too large to keep in the history cookie
+      if (isPlaylistConversion(conversionResult)) return;
+
+      // Track listings, alternatives and score breakdowns would overflow the history cookie, so they aren't kept
+      const { albumTracks, alternatives, confidenceBreakdown, ...historyResult } = conversionResult;
       const historyItem: HistoryItem = {
-        ...conversionResult,
+        ...historyResult,
+        source: {
+          ...historyResult.source,
+          metadata: { ...historyResult.source.metadata, tracks: undefined, topAlbums: undefined }
+        },
         timestamp: Date.now()
       };
       setHistory(prev => [historyItem, ...prev.slice(0, 9)]);
@@ -236,12 +330,105 @@ export const LinkConverter: React.FC = () => {
     }
   };
 
+  // Swaps the shown match for one of the alternatives, keeping the old match
+  // as an alternative so the choice can be undone
+  const handlePickAlternative = (conversion: TrackConversionResponse, alternative: RankedAlternative) => {
+    const previous: RankedAlternative = {
+      url: conversion.target.url,
+      metadata: conversion.target.metadata,
+      confidence: conversion.confidence,
+      confidenceBreakdown: conversion.confidenceBreakdown
+    };
+    const target = { ...conversion.target, url: alternative.url, metadata: alternative.metadata };
+
+    setResult({
+      ...conversion,
+      target,
+      confidence: alternative.confidence,
+      confidenceBreakdown: alternative.confidenceBreakdown,
+      alternatives: [previous, ...(conversion.alternatives || []).filter(a => a.url !== alternative.url)],
+      // The track comparison was made against the previous match
+      albumTracks: undefined
+    });
+    setHistory(prev => prev.map(item =>
+      item.target.url === conversion.target.url && item.source.link === conversion.source.link
+        ? { ...item, target, confidence: alternative.confidence }
+        : item
+    ));
+  };
+
+  // Submits the right link for a wrong match, then converts again so the
+  // correction (now used for everyone) is shown
+  const handleReportMatch = async (conversion: TrackConversionResponse) => {
+    setReportStatus('submitting');
+    setReportError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/corrections`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ link: conversion.source.link, correctLink })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const errorData = data as ApiError;
+        throw new Error(getErrorMessage(errorData, 'Failed to submit correction'));
+      }
+
+      const { correction } = data as CorrectionResponse;
+      const params = new URLSearchParams({ link: conversion.source.link, target: correction.target.provider });
+      const convertResponse = await fetch(`${API_URL}/convert?${params.toString()}`);
+      const corrected = await convertResponse.json();
+
+      if (!convertResponse.ok) {
+        const errorData = corrected as ApiError;
+        throw new Error(getErrorMessage(errorData, 'Failed to convert link'));
+      }
+
+      const correctedResult = corrected as TrackConversionResponse;
+      setResult(correctedResult);
+      setShowBreakdown(false);
+      setHistory(prev => prev.map(item =>
+        item.target.url === conversion.target.url && item.source.link === conversion.source.link
+          ? { ...item, target: correctedResult.target, confidence: correctedResult.confidence, corrected: true }
+          : item
+      ));
+      setIsReporting(false);
+      setCorrectLink('');
+      setReportStatus('done');
+    } catch (err) {
+      setReportError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      setReportStatus('idle');
+    }
+  };
+
+  const handleCheckAvailability = async (url: string) => {
+    setAvailabilityStatus('checking');
+
+    try {
+      const response = await fetch(`${API_URL}/availability?${new URLSearchParams({ link: url }).toString()}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        const errorData = data as ApiError;
+        throw new Error(getErrorMessage(errorData, 'Failed to check availability'));
+      }
+
+      setAvailability({ url, report: data as AvailabilityReport });
+      setAvailabilityStatus('idle');
+    } catch (err) {
+      console.error('Failed to check availability:', err);
+      setAvailabilityStatus('error');
+    }
+  };
+
   const clearHistory = () => {
     setHistory([]);
     Cookies.remove('conversionHistory', { path: '/' });
   };
 
-  const renderMetadata = (metadata: ConversionMetadata | null) => {
+  const renderMetadata = (metadata: ConversionMetadata | null, confidence: number) => {
     if (!metadata) return null;
 
     return (
@@ -307,12 +494,12 @@ export const LinkConverter: React.FC = () => {
               className="flex flex-col sm:flex-row items-start sm:items-center gap-2 sm:gap-4"
             >
               <span className="text-sm text-gray-400">
-                Match Confidence: {result?.confidence ?? 0}%
+                Match Confidence: {confidence}%
               </span>
               <div className="w-32 h-2 bg-gray-700 rounded-full overflow-hidden">
                 <motion.div
                   initial={{ width: 0 }}
-                  animate={{ width: `${result?.confidence ?? 0}%` }}
+                  animate={{ width: `${confidence}%` }}
                   transition={{ delay: 0.4, duration: 0.8 }}
                   className="h-full rounded-full"
                   style={{ backgroundColor: metadata.buttonColor }}
@@ -349,8 +536,363 @@ export const LinkConverter: React.FC = () => {
     );
   };
 
+  const renderAlbumTracks = (comparison: AlbumTrackComparison) => {
+    const isComplete = comparison.missing.length === 0 && comparison.extra.length === 0;
+
+    return (
+      <div className="mt-6 pt-4 border-t border-gray-700/50">
+        <p className="text-sm text-gray-400">
+          {comparison.matchedTracks} of {comparison.sourceTracks} tracks found on the matched album
+          {comparison.targetTracks !== comparison.sourceTracks && ` (which has ${comparison.targetTracks})`}
+        </p>
+        {!isComplete && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-3">
+            {comparison.missing.length > 0 && (
+              <div>
+                <p className="text-gray-500 text-sm mb-1">Missing</p>
+                {comparison.missing.map((track, index) => (
+                  <p key={index} className="text-gray-200 text-sm truncate">{track.title}</p>
+                ))}
+              </div>
+            )}
+            {comparison.extra.length > 0 && (
+              <div>
+                <p className="text-gray-500 text-sm mb-1">Extra</p>
+                {comparison.extra.map((track, index) => (
+                  <p key={index} className="text-gray-200 text-sm truncate">{track.title}</p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderConfidenceBreakdown = (breakdown: ConfidenceBreakdown) => {
+    const fieldLabels: Record<string, string> = {
+      title: 'Title',
+      artist: 'Artist',
+      album: 'Album',
+      duration: 'Duration'
+    };
+
+    return (
+      <div className="mt-6 pt-4 border-t border-gray-700/50">
+        <button
+          onClick={() => setShowBreakdown(prev => !prev)}
+          className="text-sm text-gray-400 hover:text-white transition-colors duration-300"
+        >
+          {showBreakdown ? 'Hide' : 'Why'} {breakdown.score}%?
+        </button>
+        {showBreakdown && (
+          <div className="mt-3 space-y-1 text-sm">
+            {breakdown.codeMatch && (
+              <p className="text-gray-200">
+                Exact match: both share the same {breakdown.codeMatch.toUpperCase()}
+              </p>
+            )}
+            {breakdown.factors.map(factor => (
+              <div key={factor.field} className="flex items-center justify-between gap-3">
+                <span className="text-gray-500">{fieldLabels[factor.field]} (weight {factor.weight})</span>
+                <span className="text-gray-200">{Math.round(factor.similarity * 100)}% similar</span>
+              </div>
+            ))}
+            {breakdown.penalties.map((penalty, index) => (
+              <div key={index} className="flex items-center justify-between gap-3">
+                <span className="text-gray-500">{penalty.description}</span>
+                <span className="text-red-400">×{penalty.multiplier.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderReportMatch = (conversion: TrackConversionResponse) => {
+    if (reportStatus === 'done' || conversion.corrected) {
+      return (
+        <p className="mt-4 text-sm text-gray-400">
+          {reportStatus === 'done' ? 'Thanks! This match has been corrected for everyone.' : 'This match was corrected by a user.'}
+        </p>
+      );
+    }
+
+    return (
+      <div className="mt-4">
+        {!isReporting ? (
+          <button
+            onClick={() => setIsReporting(true)}
+            className="text-sm text-gray-400 hover:text-white transition-colors duration-300"
+          >
+            Report wrong match
+          </button>
+        ) : (
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              handleReportMatch(conversion);
+            }}
+            className="flex flex-col sm:flex-row gap-2"
+          >
+            <input
+              type="text"
+              value={correctLink}
+              onChange={e => setCorrectLink(e.target.value)}
+              placeholder="Paste the link to the right match"
+              className="flex-1 px-3 py-2 text-sm bg-background rounded-lg border border-gray-700/50 text-gray-200 placeholder-gray-500 focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!correctLink || reportStatus === 'submitting'}
+              className="px-4 py-2 text-sm text-gray-300 hover:text-white transition-colors duration-300 disabled:opacity-50"
+            >
+              {reportStatus === 'submitting' ? 'Submitting...' : 'Submit'}
+            </button>
+          </form>
+        )}
+        {reportError && <p className="mt-2 text-sm text-red-400">{reportError}</p>}
+      </div>
+    );
+  };
+
+  const renderAvailability = (conversion: TrackConversionResponse) => {
+    // Only services with regional catalogs can report availability
+    if (!['spotify', 'apple-music'].includes(conversion.target.provider)) return null;
+    if (conversion.target.provider === 'spotify' && conversion.target.metadata.type === 'artist') return null;
+
+    const report = availability?.url === conversion.target.url ? availability.report : null;
+
+    return (
+      <div className="mt-6 pt-4 border-t border-gray-700/50">
+        {!report ? (
+          <button
+            onClick={() => handleCheckAvailability(conversion.target.url)}
+            disabled={availabilityStatus === 'checking'}
+            className="text-sm text-gray-400 hover:text-white transition-colors duration-300 disabled:opacity-50"
+          >
+            {availabilityStatus === 'checking' ? 'Checking availability...' : 'Where does this play?'}
+          </button>
+        ) : (
+          <div className="text-sm">
+            <p className="text-gray-400 mb-2">
+              Plays in {report.available.length} of {Object.keys(report.regions).length} countries checked
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(report.regions).map(([region, isAvailable]) => (
+                <span
+                  key={region}
+                  className={`px-2 py-1 rounded uppercase text-xs ${
+                    isAvailable ? 'bg-gray-700 text-gray-200' : 'bg-gray-800 text-gray-500 line-through'
+                  }`}
+                >
+                  {region}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+        {availabilityStatus === 'error' && (
+          <p className="mt-2 text-sm text-red-400">Couldn't check availability</p>
+        )}
+      </div>
+    );
+  };
+
+  const renderAlternatives = (conversion: TrackConversionResponse) => {
+    if (!conversion.alternatives?.length) return null;
+
+    return (
+      <div className="mt-6 pt-4 border-t border-gray-700/50">
+        <p className="text-sm text-gray-400 mb-2">Not the right one? Pick another:</p>
+        <div className="space-y-1">
+          {conversion.alternatives.map(alternative => (
+            <div key={alternative.url} className="flex items-center justify-between gap-3">
+              <a
+                href={alternative.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex-1 min-w-0 text-sm text-gray-200 hover:text-white truncate"
+              >
+                {alternative.metadata.title}
+                {alternative.metadata.type !== 'artist' && (
+                  <span className="text-gray-500"> · {alternative.metadata.artist}</span>
+                )}
+                {alternative.metadata.album && (
+                  <span className="text-gray-500"> · {alternative.metadata.album}</span>
+                )}
+              </a>
+              <span className="text-xs text-gray-500">{alternative.confidence}%</span>
+              <button
+                onClick={() => handlePickAlternative(conversion, alternative)}
+                className="text-xs text-gray-300 hover:text-white transition-colors duration-300"
+              >
+                Use this
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderPlaylistResult = (playlist: PlaylistConversionResponse) => {
+    const { brandColor } = getProviderDisplay(playlist.target.provider, providers);
+    const { summary } = playlist;
+
+    return (
+      <div className="flex flex-col gap-6">
+        <div className="flex flex-col md:flex-row items-center md:items-start gap-6">
+          {playlist.source.playlist.artworkUrl && (
+            <motion.img
+              initial={{ opacity: 0, scale: 0.8 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ delay: 0.2 }}
+              src={playlist.source.playlist.artworkUrl}
+              alt="Playlist artwork"
+              className="w-32 h-32 md:w-40 md:h-40 object-cover rounded-lg shadow-2xl flex-shrink-0"
+            />
+          )}
+          <div className="flex-1">
+            <h2 className="text-2xl sm:text-3xl font-bold text-white mb-2 text-center md:text-left">
+              {playlist.source.playlist.title}
+            </h2>
+            {playlist.source.playlist.owner && (
+              <p className="text-gray-400 mb-4 text-center md:text-left">by {playlist.source.playlist.owner}</p>
+            )}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <div>
+                <p className="text-gray-500 text-sm">Matched</p>
+                <p className="text-gray-200">{summary.matched} of {summary.processedTracks}</p>
+              </div>
+              <div>
+                <p className="text-gray-500 text-sm">Unmatched</p>
+                <p className="text-gray-200">{summary.unmatched}</p>
+              </div>
+              <div>
+                <p className="text-gray-500 text-sm">Low Confidence</p>
+                <p className="text-gray-200">{summary.lowConfidence}</p>
+              </div>
+              <div>
+                <p className="text-gray-500 text-sm">Average Confidence</p>
+                <p className="text-gray-200">{summary.averageConfidence}%</p>
+              </div>
+            </div>
+            {summary.truncated && (
+              <p className="text-gray-500 text-sm mt-4">
+                Only the first {summary.processedTracks} of {summary.totalTracks} tracks were converted.
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="divide-y divide-gray-700/50">
+          {playlist.tracks.map(track => (
+            <div key={track.position} className="flex items-center justify-between gap-4 py-2">
+              <div className="flex items-center gap-4 min-w-0">
+                <span className="text-gray-500 text-sm w-6 text-right">{track.position}</span>
+                <div className="min-w-0">
+                  <p className="text-white truncate">{track.source.title}</p>
+                  <p className="text-gray-400 text-sm truncate">{track.source.artist}</p>
+                </div>
+              </div>
+              {track.status === 'matched' && track.url ? (
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <span className="text-sm text-gray-400">{track.confidence}%</span>
+                  <a
+                    href={track.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm hover:underline"
+                    style={{ color: brandColor }}
+                  >
+                    Open
+                  </a>
+                </div>
+              ) : (
+                <span className="text-sm text-red-400 flex-shrink-0">Not found</span>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderLinksResult = (links: UniversalLinksResponse) => {
+    const { metadata } = links.source;
+
+    return (
+      <div className="flex flex-col gap-6">
+        <div className="flex flex-col md:flex-row items-center md:items-start gap-6">
+          {metadata.artworkUrl && (
+            <motion.img
+              initial={{ opacity: 0, scale: 0.8 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ delay: 0.2 }}
+              src={metadata.artworkUrl}
+              alt={metadata.type === 'artist' ? 'Artist photo' : 'Album artwork'}
+              className={`w-32 h-32 md:w-40 md:h-40 object-cover shadow-2xl flex-shrink-0 ${
+                metadata.type === 'artist' ? 'rounded-full' : 'rounded-lg'
+              }`}
+            />
+          )}
+          <div className="flex-1">
+            <h2 className="text-2xl sm:text-3xl font-bold text-white mb-2 text-center md:text-left">
+              {metadata.title}
+            </h2>
+            {metadata.type !== 'artist' && (
+              <p className="text-gray-400 text-center md:text-left">{metadata.artist}</p>
+            )}
+          </div>
+        </div>
+        <div className="divide-y divide-gray-700/50">
+          {Object.entries(links.links).map(([providerId, link]) => {
+            const { name, brandColor, Icon } = getProviderDisplay(providerId, providers);
+            return (
+              <div key={providerId} className="flex items-center justify-between gap-4 py-3">
+                <div className="flex items-center gap-3">
+                  <span style={{ color: brandColor }}>
+                    <Icon className="h-6 w-6" />
+                  </span>
+                  <span className="text-white">{name}</span>
+                </div>
+                {link.status === 'ok' ? (
+                  <div className="flex items-center gap-3">
+                    {providerId !== links.source.provider && (
+                      <span className="text-sm text-gray-400">{link.confidence}%</span>
+                    )}
+                    <button
+                      onClick={() => handleCopyLink(link.url)}
+                      className="text-sm text-gray-400 hover:text-white transition-colors duration-300"
+                    >
+                      Copy
+                    </button>
+                    <a
+                      href={link.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm hover:underline"
+                      style={{ color: brandColor }}
+                    >
+                      Open
+                    </a>
+                  </div>
+                ) : (
+                  <span className="text-sm text-red-400" title={getErrorMessage(link, 'No match found')}>
+                    {!link.code || link.code === 'no_match' || link.code === 'content_not_found' ? 'Not found' : 'Unavailable'}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
   const renderHistoryCard = (item: HistoryItem, index: number) => {
-    const metadata = getMetadata(item);
+    const metadata = getMetadata(item, providers);
     if (!metadata) return null;
 
     const isExpanded = expandedCard === item.timestamp;
@@ -615,7 +1157,9 @@ export const LinkConverter: React.FC = () => {
                   type="url"
                   value={inputLink}
                   onChange={(e) => setInputLink(e.target.value)}
-                  placeholder="Paste Apple Music or Spotify link here"
+                  placeholder={providers.length > 0
+                    ? `Paste a ${providers.map(provider => provider.name).join(', ')} link here`
+                    : "Paste a music link here"}
                   className="w-full p-3 md:p-4 rounded-lg bg-background-light border-2 border-gray-700 focus:border-[#9d8cff] focus:ring-2 focus:ring-[#9d8cff]/20 text-base sm:text-lg transition-all duration-300 outline-none text-white"
                   required
                 />
@@ -623,10 +1167,9 @@ export const LinkConverter: React.FC = () => {
                   type="submit"
                   disabled={isLoading}
                   className={`absolute right-4 top-1/2 transform -translate-y-1/2 p-2 bg-transparent ${
-                    linkType === "apple" ? "bg-[#1DB954] hover:bg-[#1aa34a]" : 
-                    linkType === "spotify" ? "bg-[#fa586a] hover:bg-[#f94d60]" : 
-                    "bg-[#4a5568] hover:bg-[#2d3748]"
+                    targetProvider ? "" : "bg-[#4a5568] hover:bg-[#2d3748]"
                   } text-white rounded-full shadow-lg focus:outline-none focus:ring-2 focus:ring-white focus:ring-opacity-75`}
+                  style={targetProvider ? { backgroundColor: getProviderDisplay(targetProvider.id, providers).brandColor } : undefined}
                   whileHover={{ scale: 1.02 }}
                   whileTap={{ scale: 0.98 }}
                   initial={{ y: "-50%" }}
@@ -643,14 +1186,48 @@ export const LinkConverter: React.FC = () => {
                   ) : (
                     <div className="flex items-center gap-2">
                       <span className="hidden lg:!inline-block">Convert to</span>
-                      {linkType === "apple" ? <SpotifyIcon className="text-white h-6 w-6" /> : 
-                       linkType === "spotify" ? <AppleMusicIcon className="text-white h-6 w-6" /> : 
-                       null}
+                      {targetProvider && !isAllProviders && (() => {
+                        const { Icon } = getProviderDisplay(targetProvider.id, providers);
+                        return <Icon className="text-white h-6 w-6" />;
+                      })()}
                     </div>
                   )}
                 </motion.button>
               </div>
             </div>
+            {linkType && (
+              <div className="flex flex-wrap justify-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => setSelectedTarget(ALL_PROVIDERS)}
+                  className={`flex items-center gap-2 px-3 py-1 rounded-full border text-sm transition-colors duration-300 ${
+                    isAllProviders ? 'text-white border-[#9d8cff] bg-[#9d8cff]/20' : 'text-gray-400 border-gray-700 hover:text-white'
+                  }`}
+                >
+                  All platforms
+                </button>
+                {providers
+                  .filter(provider => provider.id !== linkType.id)
+                  .map(provider => {
+                    const { name, brandColor, Icon } = getProviderDisplay(provider.id, providers);
+                    const isSelected = !isAllProviders && provider.id === targetProvider?.id;
+                    return (
+                      <button
+                        key={provider.id}
+                        type="button"
+                        onClick={() => setSelectedTarget(provider.id)}
+                        className={`flex items-center gap-2 px-3 py-1 rounded-full border text-sm transition-colors duration-300 ${
+                          isSelected ? 'text-white' : 'text-gray-400 border-gray-700 hover:text-white'
+                        }`}
+                        style={isSelected ? { borderColor: brandColor, backgroundColor: `${brandColor}33` } : undefined}
+                      >
+                        <Icon className="h-4 w-4" />
+                        {name}
+                      </button>
+                    );
+                  })}
+              </div>
+            )}
           </motion.form>
 
           <AnimatePresence mode="sync">
@@ -666,8 +1243,32 @@ export const LinkConverter: React.FC = () => {
               </motion.div>
             )}
 
-            {result && (() => {
-              const metadata = getMetadata(result);
+            {linksResult && (
+              <motion.div
+                key="links-result"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0 }}
+                className="bg-background-light rounded-xl shadow-xl p-3 md:p-4 mb-8 border border-gray-700/50"
+              >
+                {renderLinksResult(linksResult)}
+              </motion.div>
+            )}
+
+            {result && isPlaylistConversion(result) && (
+              <motion.div
+                key="playlist-result"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0 }}
+                className="bg-background-light rounded-xl shadow-xl p-3 md:p-4 mb-8 border border-gray-700/50"
+              >
+                {renderPlaylistResult(result)}
+              </motion.div>
+            )}
+
+            {result && !isPlaylistConversion(result) && (() => {
+              const metadata = getMetadata(result, providers);
               if (!metadata) return null;
 
               return (
@@ -678,7 +1279,15 @@ export const LinkConverter: React.FC = () => {
                   exit={{ opacity: 0 }}
                   className="bg-background-light rounded-xl shadow-xl p-3 md:p-4 mb-8 border border-gray-700/50"
                 >
-                  {renderMetadata(metadata)}
+                  {renderMetadata(metadata, result.confidence)}
+                  {result.confidenceBreakdown && renderConfidenceBreakdown(result.confidenceBreakdown)}
+                  {result.cache?.response && (
+                    <p className="mt-2 text-xs text-gray-500">Served from cache</p>
+                  )}
+                  {result.albumTracks && renderAlbumTracks(result.albumTracks)}
+                  {renderAvailability(result)}
+                  {renderAlternatives(result)}
+                  {renderReportMatch(result)}
                 </motion.div>
               );
             })()}
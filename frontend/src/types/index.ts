@@ -4,6 +4,7 @@ export interface DetailedMetadata {
   artist: string;
   album?: string;
   isrc?: string;
+  upc?: string;
   artworkUrl?: string;
   releaseDate?: string;
   genres?: string[];
@@ -14,31 +15,196 @@ export interface DetailedMetadata {
   duration?: number;
   popularity?: number;
   previewUrl?: string;
+  tracks?: DetailedMetadata[];
+  topAlbums?: DetailedMetadata[];
 }
 
-export interface ConversionResponseAppleToSpotify {
-  conversionDirection: "apple-to-spotify";
-  appleMusicMetadata: DetailedMetadata;
-  spotifyResult: {
-    spotifyUrl: string;
+export interface ProviderInfo {
+  id: string;
+  name: string;
+  hosts: string[];
+  shortLinkHosts: string[];
+}
+
+export interface AlbumTrackComparison {
+  sourceTracks: number;
+  targetTracks: number;
+  matchedTracks: number;
+  missing: DetailedMetadata[];
+  extra: DetailedMetadata[];
+}
+
+export interface ConfidenceFactor {
+  field: 'title' | 'artist' | 'album' | 'duration';
+  similarity: number;
+  weight: number;
+}
+
+export interface ConfidencePenalty {
+  type: 'version' | 'explicit' | 'tribute' | 'trackList';
+  description: string;
+  multiplier: number;
+}
+
+export interface ConfidenceBreakdown {
+  score: number;
+  factors: ConfidenceFactor[];
+  codeMatch?: 'isrc' | 'upc';
+  penalties: ConfidencePenalty[];
+}
+
+export interface RankedAlternative {
+  url: string;
+  metadata: DetailedMetadata;
+  confidence: number;
+  confidenceBreakdown?: ConfidenceBreakdown;
+}
+
+export interface CacheStatus {
+  response: boolean;
+  metadata: boolean;
+  match: boolean;
+}
+
+export interface TrackConversionResponse {
+  source: {
+    provider: string;
+    link: string;
+    metadata: DetailedMetadata;
+  };
+  target: {
+    provider: string;
+    url: string;
     metadata: DetailedMetadata;
   };
   confidence: number;
+  corrected?: boolean;
+  confidenceBreakdown?: ConfidenceBreakdown;
+  alternatives?: RankedAlternative[];
+  albumTracks?: AlbumTrackComparison;
+  region?: string;
+  cache?: CacheStatus;
+}
+
+export interface PlaylistMetadata {
+  title: string;
+  owner?: string;
+  description?: string;
+  artworkUrl?: string;
+  totalTracks: number;
 }
 
-export interface ConversionResponseSpotifyToApple {
-  conversionDirection: "spotify-to-apple";
-  spotifyMetadata: DetailedMetadata;
-  appleMusicResult: {
-    appleMusicUrl: string;
+export interface PlaylistTrackResult {
+  position: number;
+  source: DetailedMetadata;
+  status: 'matched' | 'unmatched';
+  url?: string;
+  metadata?: DetailedMetadata;
+  confidence: number;
+  cached?: boolean;
+  error?: string;
+}
+
+export interface PlaylistConversionSummary {
+  totalTracks: number;
+  processedTracks: number;
+  matched: number;
+  unmatched: number;
+  lowConfidence: number;
+  averageConfidence: number;
+  truncated: boolean;
+}
+
+export interface PlaylistConversionResponse {
+  mode: "playlist";
+  source: {
+    provider: string;
+    link: string;
+    playlist: PlaylistMetadata;
+  };
+  target: {
+    provider: string;
+  };
+  tracks: PlaylistTrackResult[];
+  unmatched: DetailedMetadata[];
+  summary: PlaylistConversionSummary;
+  region?: string;
+}
+
+export type ConversionResponse = TrackConversionResponse | PlaylistConversionResponse;
+
+export type ProviderLinkResult =
+  | {
+      status: 'ok';
+      url: string;
+      metadata: DetailedMetadata;
+      confidence: number;
+      corrected?: boolean;
+      cached?: boolean;
+    }
+  | {
+      status: 'error';
+      error: string;
+      code?: ErrorCode;
+    };
+
+export interface UniversalLinksResponse {
+  source: {
+    provider: string;
+    link: string;
     metadata: DetailedMetadata;
   };
-  confidence: number;
+  links: Record<string, ProviderLinkResult>;
+  region?: string;
+  cache?: Pick<CacheStatus, 'metadata'>;
+}
+
+export interface Correction {
+  source: {
+    provider: string;
+    type: DetailedMetadata['type'];
+    id: string;
+    link: string;
+  };
+  target: {
+    provider: string;
+    url: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CorrectionResponse {
+  correction: Correction;
+  metadata: DetailedMetadata;
+}
+
+export interface AvailabilityReport {
+  provider: string;
+  link: string;
+  type: DetailedMetadata['type'] | 'playlist';
+  regions: Record<string, boolean>;
+  available: string[];
+  unavailable: string[];
 }
 
-export type ConversionResponse = ConversionResponseAppleToSpotify | ConversionResponseSpotifyToApple;
+export type ErrorCode =
+  | 'invalid_request'
+  | 'invalid_link'
+  | 'unsupported_link'
+  | 'link_resolution_failed'
+  | 'invalid_correction'
+  | 'not_supported'
+  | 'content_not_found'
+  | 'no_match'
+  | 'upstream_rate_limited'
+  | 'upstream_unavailable'
+  | 'upstream_error'
+  | 'credentials_missing'
+  | 'internal_error';
 
 export interface ApiError {
   error: string;
+  code?: ErrorCode;
   details?: string;
 } 
\ No newline at end of file